@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { countPlacements, deleteArtwork, getArtwork, updateArtwork } from '@/app/lib/artworks';
+import { artworkPatchSchema } from '@/app/lib/artworkContract';
+import { parseRequestBody, requireUser } from '@/app/lib/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const artworkId = Number(id);
+
+  if (!Number.isInteger(artworkId)) {
+    return NextResponse.json({ error: 'Invalid artwork id' }, { status: 400 });
+  }
+
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  try {
+    const artwork = await getArtwork(auth.user.id, artworkId);
+    if (!artwork) {
+      return NextResponse.json({ error: 'Artwork not found' }, { status: 404 });
+    }
+    return NextResponse.json(artwork);
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to fetch artwork' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const artworkId = Number(id);
+
+  if (!Number.isInteger(artworkId)) {
+    return NextResponse.json({ error: 'Invalid artwork id' }, { status: 400 });
+  }
+
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  const body = await parseRequestBody(request, artworkPatchSchema);
+  if (body.error) return body.error;
+
+  try {
+    const artwork = await updateArtwork(auth.user.id, artworkId, body.data);
+    if (!artwork) {
+      return NextResponse.json({ error: 'Artwork not found' }, { status: 404 });
+    }
+    return NextResponse.json(artwork);
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to save artwork' }, { status: 500 });
+  }
+}
+
+// Artworks still hanging in a room can't be deleted, remove them from the wall first
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const artworkId = Number(id);
+
+  if (!Number.isInteger(artworkId)) {
+    return NextResponse.json({ error: 'Invalid artwork id' }, { status: 400 });
+  }
+
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  try {
+    const artwork = await getArtwork(auth.user.id, artworkId);
+    if (!artwork) {
+      return NextResponse.json({ error: 'Artwork not found' }, { status: 404 });
+    }
+    const placements = await countPlacements(artworkId);
+    if (placements > 0) {
+      return NextResponse.json({ error: `Artwork is placed on ${placements} wall(s)` }, { status: 409 });
+    }
+    await deleteArtwork(auth.user.id, artworkId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to delete artwork' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { createArtwork, listArtworks } from '@/app/lib/artworks';
+import { artworkCreateSchema } from '@/app/lib/artworkContract';
+import { parseRequestBody, requireUser } from '@/app/lib/http';
+
+// ?q= filters by title or artist
+export async function GET(request: Request) {
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  const q = new URL(request.url).searchParams.get('q')?.trim();
+
+  try {
+    const result = await listArtworks(auth.user.id, q || undefined);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to fetch artworks' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  const body = await parseRequestBody(request, artworkCreateSchema);
+  if (body.error) return body.error;
+
+  try {
+    const artwork = await createArtwork(auth.user.id, body.data);
+    return NextResponse.json(artwork, { status: 201 });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to save artwork' }, { status: 500 });
+  }
+}
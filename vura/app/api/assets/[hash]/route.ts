@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { isAssetHash, isServableImageType, readAsset } from '@/app/lib/assets';
+
+// Readable without a session: the URL is the SHA-256 of the bytes, so it can't be guessed,
+// and share links and collaborators need the images of rooms they don't own
+export async function GET(request: Request, { params }: { params: Promise<{ hash: string }> }) {
+  const { hash } = await params;
+
+  if (!isAssetHash(hash)) {
+    return NextResponse.json({ error: 'Invalid asset id' }, { status: 400 });
+  }
+
+  try {
+    const asset = await readAsset(hash);
+    if (!asset) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': asset.contentType,
+      // Content-addressed, so the bytes behind a URL never change
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      // Served from our own origin, so nothing in an asset may ever run as a page
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': 'sandbox',
+    };
+    // Assets stored before uploads were checked may be anything; those are only offered as downloads
+    if (!isServableImageType(asset.contentType)) {
+      headers['Content-Type'] = 'application/octet-stream';
+      headers['Content-Disposition'] = `attachment; filename="${hash}"`;
+    }
+
+    return new NextResponse(new Uint8Array(asset.data), { headers });
+  } catch (error) {
+    console.error('Asset Read Error:', error);
+    return NextResponse.json({ error: 'Failed to read asset' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { detectImageType, storeAsset } from '@/app/lib/assets';
+import { requireUser } from '@/app/lib/http';
+
+const MAX_ASSET_BYTES = 25 * 1024 * 1024;
+
+export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (file.size > MAX_ASSET_BYTES) {
+      return NextResponse.json({ error: 'Image is too large' }, { status: 413 });
+    }
+
+    // The claimed type comes from the client, so the bytes decide what gets stored
+    const data = Buffer.from(await file.arrayBuffer());
+    const contentType = detectImageType(data);
+    if (!contentType) {
+      return NextResponse.json({ error: 'Only PNG, JPEG, WebP and GIF images can be uploaded' }, { status: 415 });
+    }
+    const { hash, url } = await storeAsset(data, contentType, auth.user.id);
+
+    return NextResponse.json({ success: true, hash, url });
+  } catch (error) {
+    console.error('Asset Upload Error:', error);
+    return NextResponse.json({ error: 'Failed to store asset' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { authenticate, startSession } from '@/app/lib/auth';
+import { credentialsSchema } from '@/app/lib/authContract';
+import { parseRequestBody } from '@/app/lib/http';
+
+export async function POST(request: Request) {
+  const body = await parseRequestBody(request, credentialsSchema);
+  if (body.error) return body.error;
+
+  try {
+    const user = await authenticate(body.data.email, body.data.password);
+    if (!user) {
+      // Same answer for an unknown email and a wrong password
+      return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+    }
+    await startSession(user.id);
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { endSession } from '@/app/lib/auth';
+
+export async function POST() {
+  try {
+    await endSession();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to sign out' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { registerUser, startSession } from '@/app/lib/auth';
+import { registerSchema } from '@/app/lib/authContract';
+import { parseRequestBody } from '@/app/lib/http';
+
+// Creates the account and signs it in
+export async function POST(request: Request) {
+  const body = await parseRequestBody(request, registerSchema);
+  if (body.error) return body.error;
+
+  try {
+    const user = await registerUser(body.data);
+    if (!user) {
+      return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+    }
+    await startSession(user.id);
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to create account' }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { deleteProject, getProjectDocument, renameProject } from '@/app/lib/projects';
+import { projectPatchSchema } from '@/app/lib/projectContract';
+import { parseRequestBody, requireUser } from '@/app/lib/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const projectId = Number(id);
+
+  if (!Number.isInteger(projectId)) {
+    return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+  }
+
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  try {
+    const project = await getProjectDocument(auth.user.id, projectId);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    return NextResponse.json(project);
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to fetch project' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const projectId = Number(id);
+
+  if (!Number.isInteger(projectId)) {
+    return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+  }
+
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  const body = await parseRequestBody(request, projectPatchSchema);
+  if (body.error) return body.error;
+
+  try {
+    const renamed = await renameProject(auth.user.id, projectId, body.data.name);
+    if (!renamed) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, projectId });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to save project' }, { status: 500 });
+  }
+}
+
+// The walls survive as standalone rooms
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const projectId = Number(id);
+
+  if (!Number.isInteger(projectId)) {
+    return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+  }
+
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  try {
+    const deleted = await deleteProject(auth.user.id, projectId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to delete project' }, { status: 500 });
+  }
+}
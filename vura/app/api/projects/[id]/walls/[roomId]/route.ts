@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { removeWall } from '@/app/lib/projects';
+import { requireUser } from '@/app/lib/http';
+
+// Detaches the wall, the room itself is kept
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string; roomId: string }> }) {
+  const { id, roomId } = await params;
+  const projectId = Number(id);
+  const wallId = Number(roomId);
+
+  if (!Number.isInteger(projectId) || !Number.isInteger(wallId)) {
+    return NextResponse.json({ error: 'Invalid project or room id' }, { status: 400 });
+  }
+
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  try {
+    const removed = await removeWall(auth.user.id, projectId, wallId);
+    if (!removed) {
+      return NextResponse.json({ error: 'Wall not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to remove wall' }, { status: 500 });
+  }
+}
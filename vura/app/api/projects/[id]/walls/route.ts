@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { addWall } from '@/app/lib/projects';
+import { PlacementConflictError } from '@/app/lib/rooms';
+import { wallAddSchema } from '@/app/lib/projectContract';
+import { parseRequestBody, requireUser } from '@/app/lib/http';
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const projectId = Number(id);
+
+  if (!Number.isInteger(projectId)) {
+    return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+  }
+
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  const body = await parseRequestBody(request, wallAddSchema);
+  if (body.error) return body.error;
+
+  try {
+    const roomId = await addWall(auth.user.id, projectId, body.data.roomId, body.data.name);
+    if (roomId === null) {
+      return NextResponse.json({ error: 'Project or room not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, roomId });
+  } catch (error) {
+    if (error instanceof PlacementConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to add wall' }, { status: 500 });
+  }
+}
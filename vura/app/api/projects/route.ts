@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { createProject, listProjects } from '@/app/lib/projects';
+import { PlacementConflictError } from '@/app/lib/rooms';
+import { projectCreateSchema } from '@/app/lib/projectContract';
+import { parseRequestBody, requireUser } from '@/app/lib/http';
+
+export async function GET() {
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  try {
+    const result = await listProjects(auth.user.id);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to fetch projects' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  const body = await parseRequestBody(request, projectCreateSchema);
+  if (body.error) return body.error;
+
+  try {
+    const projectId = await createProject(auth.user.id, body.data.name, body.data.roomIds);
+    return NextResponse.json({ success: true, projectId });
+  } catch (error) {
+    if (error instanceof PlacementConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to save project' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { removeCollaborator } from '@/app/lib/access';
+import { requireRoomAccess } from '@/app/lib/http';
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string; userId: string }> }) {
+  const { id, userId } = await params;
+  const roomId = Number(id);
+  const collaboratorId = Number(userId);
+
+  if (!Number.isInteger(roomId) || !Number.isInteger(collaboratorId)) {
+    return NextResponse.json({ error: 'Invalid room or user id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'owner');
+  if (access.error) return access.error;
+
+  try {
+    const removed = await removeCollaborator(roomId, collaboratorId);
+    if (!removed) {
+      return NextResponse.json({ error: 'Collaborator not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to remove collaborator' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { findUserByEmail } from '@/app/lib/auth';
+import { listCollaborators, setCollaborator } from '@/app/lib/access';
+import { collaboratorInviteSchema } from '@/app/lib/authContract';
+import { parseRequestBody, requireRoomAccess } from '@/app/lib/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'read');
+  if (access.error) return access.error;
+
+  try {
+    const collaborators = await listCollaborators(roomId);
+    return NextResponse.json(collaborators);
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to fetch collaborators' }, { status: 500 });
+  }
+}
+
+// Invites an existing account by email, or changes the role of a collaborator
+export async function POST(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'owner');
+  if (access.error) return access.error;
+
+  const body = await parseRequestBody(request, collaboratorInviteSchema);
+  if (body.error) return body.error;
+
+  try {
+    const invitee = await findUserByEmail(body.data.email);
+    if (!invitee) {
+      return NextResponse.json({ error: 'No account with this email' }, { status: 404 });
+    }
+    if (invitee.id === access.user.id) {
+      return NextResponse.json({ error: 'You already own this room' }, { status: 400 });
+    }
+    await setCollaborator(roomId, invitee.id, body.data.role);
+    return NextResponse.json(
+      { userId: invitee.id, email: invitee.email, name: invitee.name, role: body.data.role },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to invite collaborator' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { duplicateRoom } from '@/app/lib/rooms';
+import { requireRoomAccess } from '@/app/lib/http';
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'read');
+  if (access.error) return access.error;
+
+  try {
+    const copyId = await duplicateRoom(roomId, access.user.id);
+    if (copyId === null) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, roomId: copyId });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to duplicate room' }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { joinLiveRoom, leaveLiveRoom, LockedPieceError, submitLiveOps, updateLivePresence } from '@/app/lib/liveRooms';
+import { livePostSchema } from '@/app/lib/collabContract';
+import { parseRequestBody, requireRoomAccess } from '@/app/lib/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export const dynamic = 'force-dynamic';
+
+// Proxies close idle streams, a comment line every 25s keeps the connection open
+const KEEPALIVE_MS = 25_000;
+
+// Server-sent events: a snapshot first, then ops, peer and peer-left events
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'read');
+  if (access.error) return access.error;
+
+  const encoder = new TextEncoder();
+  let clientId: string | null = null;
+  let keepalive: ReturnType<typeof setInterval> | undefined;
+
+  const leave = () => {
+    clearInterval(keepalive);
+    if (clientId) leaveLiveRoom(roomId, clientId);
+    clientId = null;
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The stream closed under us, cancel() cleans up
+        }
+      };
+
+      try {
+        clientId = await joinLiveRoom(roomId, access.user, (event, data) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      } catch (error) {
+        console.error('Database Error:', error);
+        controller.close();
+        return;
+      }
+      if (request.signal.aborted) {
+        leave();
+        return;
+      }
+      keepalive = setInterval(() => write(': keepalive\n\n'), KEEPALIVE_MS);
+      request.signal.addEventListener('abort', leave);
+    },
+    cancel: leave,
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+// Piece operations need write access, presence updates only need to see the room
+export async function POST(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const body = await parseRequestBody(request, livePostSchema);
+  if (body.error) return body.error;
+
+  const access = await requireRoomAccess(roomId, 'ops' in body.data ? 'write' : 'read');
+  if (access.error) return access.error;
+
+  const message = body.data;
+  try {
+    const delivered = 'ops' in message
+      ? await submitLiveOps(roomId, message.clientId, access.user.id, message.opId, message.ops)
+      : await updateLivePresence(roomId, message.clientId, access.user.id, message.presence);
+
+    if (!delivered) {
+      return NextResponse.json({ error: 'Not connected to this room' }, { status: 409 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    // The client drops a refused batch and falls back to the pieces everyone agreed on
+    if (error instanceof LockedPieceError) {
+      return NextResponse.json({ error: error.message }, { status: 423 });
+    }
+    console.error('Live Edit Error:', error);
+    return NextResponse.json({ error: 'Failed to apply the edit' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { PlacementConflictError, restoreRevision } from '@/app/lib/rooms';
+import { requireRoomAccess } from '@/app/lib/http';
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string; revisionId: string }> }) {
+  const { id, revisionId } = await params;
+  const roomId = Number(id);
+  const revId = Number(revisionId);
+
+  if (!Number.isInteger(roomId) || !Number.isInteger(revId)) {
+    return NextResponse.json({ error: 'Invalid room or revision id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'write');
+  if (access.error) return access.error;
+
+  try {
+    const restored = await restoreRevision(roomId, revId, access.user.id);
+    if (!restored) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, roomId });
+  } catch (error) {
+    if (error instanceof PlacementConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to restore revision' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { listRevisions } from '@/app/lib/rooms';
+import { requireRoomAccess } from '@/app/lib/http';
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'read');
+  if (access.error) return access.error;
+
+  try {
+    const revisions = await listRevisions(roomId);
+    return NextResponse.json(revisions);
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to fetch revisions' }, { status: 500 });
+  }
+}
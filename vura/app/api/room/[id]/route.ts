@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { applyPayload, ArtworkAccessError, deleteRoom, EMPTY_ROOM, getRoomDocument, PlacementConflictError, toSnapshot, updateRoom } from '@/app/lib/rooms';
+import { roomPatchSchema, roomUpdateSchema } from '@/app/lib/roomContract';
+import { parseRequestBody, requireRoomAccess } from '@/app/lib/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'read');
+  if (access.error) return access.error;
+
+  try {
+    const room = await getRoomDocument(roomId);
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ...room, accessRole: access.role });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to fetch room' }, { status: 500 });
+  }
+}
+
+// Full replace: fields missing from the body are reset to their defaults
+export async function PUT(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'write');
+  if (access.error) return access.error;
+
+  const body = await parseRequestBody(request, roomUpdateSchema);
+  if (body.error) return body.error;
+
+  try {
+    const updated = await updateRoom(roomId, applyPayload(EMPTY_ROOM, body.data), access.user.id);
+    if (!updated) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, roomId });
+  } catch (error) {
+    if (error instanceof PlacementConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof ArtworkAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to save room' }, { status: 500 });
+  }
+}
+
+// Partial update: only the fields present in the body change
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'write');
+  if (access.error) return access.error;
+
+  const body = await parseRequestBody(request, roomPatchSchema);
+  if (body.error) return body.error;
+
+  try {
+    const current = await getRoomDocument(roomId);
+    if (!current) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+    // The room can still be deleted between the read and the write
+    const updated = await updateRoom(roomId, applyPayload(toSnapshot(current), body.data), access.user.id);
+    if (!updated) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, roomId });
+  } catch (error) {
+    if (error instanceof PlacementConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof ArtworkAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to save room' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'owner');
+  if (access.error) return access.error;
+
+  try {
+    const deleted = await deleteRoom(roomId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to delete room' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { revokeShareLink } from '@/app/lib/shares';
+import { requireRoomAccess } from '@/app/lib/http';
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string; token: string }> }) {
+  const { id, token } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'write');
+  if (access.error) return access.error;
+
+  try {
+    const revoked = await revokeShareLink(roomId, token);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to revoke share link' }, { status: 500 });
+  }
+}
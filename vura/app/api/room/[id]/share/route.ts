@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { getRoomDocument } from '@/app/lib/rooms';
+import { createShareLink, listShareLinks } from '@/app/lib/shares';
+import { shareCreateSchema } from '@/app/lib/roomContract';
+import { parseRequestBody, requireRoomAccess } from '@/app/lib/http';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'write');
+  if (access.error) return access.error;
+
+  try {
+    const links = await listShareLinks(roomId);
+    return NextResponse.json(links);
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to fetch share links' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const roomId = Number(id);
+
+  if (!Number.isInteger(roomId)) {
+    return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+  }
+
+  const access = await requireRoomAccess(roomId, 'write');
+  if (access.error) return access.error;
+
+  const body = await parseRequestBody(request, shareCreateSchema);
+  if (body.error) return body.error;
+
+  try {
+    const room = await getRoomDocument(roomId);
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+    const link = await createShareLink(roomId, body.data.expiresInDays);
+    return NextResponse.json(link, { status: 201 });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Failed to create share link' }, { status: 500 });
+  }
+}
@@ -1,50 +1,49 @@
 import { NextResponse } from 'next/server';
-import { db } from '@/app/lib/db';
-import { rooms, artPieces } from '@/app/lib/schema';
-import { desc } from 'drizzle-orm';
+import { applyPayload, ArtworkAccessError, createRoom, decodeRoomCursor, EMPTY_ROOM, listRooms } from '@/app/lib/rooms';
+import { roomCreateSchema, roomListQuerySchema } from '@/app/lib/roomContract';
+import { parseRequestBody, requireUser, validationError } from '@/app/lib/http';
 
 export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  const body = await parseRequestBody(request, roomCreateSchema);
+  if (body.error) return body.error;
+
   try {
-    const { name, wallImageUrl, ratio, artPieces: pieces } = await request.json();
-
-    // 1. Insert Room
-    const [newRoom] = await db.insert(rooms).values({
-      name: name || 'Untitled Room',
-      wallImageUrl,
-      referenceRatioPpi: ratio,
-    }).returning();
-
-    const roomId = newRoom.id;
-
-    // 2. Insert Art Pieces
-    if (pieces && pieces.length > 0) {
-       const piecesToInsert = pieces.map((art: any) => ({
-          roomId,
-          imageUrl: art.url,
-          x: art.x,
-          y: art.y,
-          width: art.width,
-          height: art.height,
-          // We could calculate real dimensions here if we wanted to persist them
-          // realWidthInches: ... 
-       }));
-       
-       await db.insert(artPieces).values(piecesToInsert);
-    }
+    // Inserts the room, its art pieces and the first revision
+    const roomId = await createRoom(auth.user.id, applyPayload(EMPTY_ROOM, body.data));
 
     return NextResponse.json({ success: true, roomId });
   } catch (error) {
+    if (error instanceof ArtworkAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error('Database Error:', error);
     return NextResponse.json({ error: 'Failed to save room' }, { status: 500 });
   }
 }
 
+// Paginated room summaries: ?q=<name filter>&sort=updated|created|name&cursor=<nextCursor>&limit=<1-50>
 export async function GET(request: Request) {
+  const auth = await requireUser();
+  if (auth.error) return auth.error;
+
+  const { searchParams } = new URL(request.url);
+  const query = roomListQuerySchema.safeParse(Object.fromEntries(searchParams));
+  if (!query.success) return validationError(query.error);
+
+  const { cursor, ...options } = query.data;
+  const after = cursor ? decodeRoomCursor(cursor) : null;
+  if (cursor && !after) {
+    return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+  }
+
   try {
-    const result = await db.select().from(rooms).orderBy(desc(rooms.createdAt)).limit(5);
-    return NextResponse.json(result);
+    const page = await listRooms(auth.user.id, { ...options, cursor: after });
+    return NextResponse.json(page);
   } catch (error) {
-     console.error('Database Error:', error);
+    console.error('Database Error:', error);
     return NextResponse.json({ error: 'Failed to fetch rooms' }, { status: 500 });
   }
 }
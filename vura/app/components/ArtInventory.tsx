@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { Search, Pencil, Trash2, Plus, Loader2 } from 'lucide-react';
+import ArtUploader from './ArtUploader';
+import { ArtworkApi } from '../utils/artworkApi';
+import { AssetClient } from '../utils/assetClient';
+import { RoomApiError } from '../utils/roomApi';
+import { HANGING_HARDWARE, HangingHardware, ArtworkRecord } from '../lib/artworkContract';
+
+// dataTransfer type for dragging an artwork from the inventory onto the wall; the payload is the JSON record
+export const ARTWORK_DRAG_TYPE = 'application/x-vura-artwork';
+
+// New uploads start 20" wide, the height follows the image
+const DEFAULT_WIDTH_INCHES = 20;
+
+interface ArtInventoryProps {
+  placedArtworkIds: number[];
+  onPlace: (artwork: ArtworkRecord) => void;
+  onArtworkUpdated: (artwork: ArtworkRecord) => void;
+}
+
+type ArtworkDraft = {
+  title: string;
+  artist: string;
+  widthInches: string;
+  heightInches: string;
+  frameDepthInches: string;
+  hangingHardware: HangingHardware | '';
+};
+
+const toDraft = (artwork: ArtworkRecord): ArtworkDraft => ({
+  title: artwork.title,
+  artist: artwork.artist ?? '',
+  widthInches: String(artwork.widthInches),
+  heightInches: String(artwork.heightInches),
+  frameDepthInches: artwork.frameDepthInches === null ? '' : String(artwork.frameDepthInches),
+  hangingHardware: artwork.hangingHardware ?? '',
+});
+
+const measureImage = (url: string) => new Promise<{ width: number; height: number }>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+  img.onerror = reject;
+  img.src = url;
+});
+
+const ArtInventory: React.FC<ArtInventoryProps> = ({ placedArtworkIds, onPlace, onArtworkUpdated }) => {
+  const [artworks, setArtworks] = useState<ArtworkRecord[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<ArtworkDraft | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        setArtworks(await ArtworkApi.list(query.trim()));
+      } catch (err) {
+        console.error(err);
+      } finally {
+        setIsLoading(false);
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const startEditing = (artwork: ArtworkRecord) => {
+    setEditingId(artwork.id);
+    setDraft(toDraft(artwork));
+  };
+
+  const handleArtProcessed = async (url: string) => {
+    try {
+      const { width, height } = await measureImage(url);
+      const artwork = await ArtworkApi.create({
+        imageUrl: await AssetClient.persist(url),
+        title: 'Untitled',
+        widthInches: DEFAULT_WIDTH_INCHES,
+        heightInches: Math.round((DEFAULT_WIDTH_INCHES * height / width) * 8) / 8,
+      });
+      setArtworks(prev => [artwork, ...prev]);
+      startEditing(artwork);
+      onPlace(artwork);
+    } catch (err) {
+      console.error(err);
+      alert("Failed to add the artwork to your collection.");
+    }
+  };
+
+  const saveDraft = async () => {
+    if (editingId === null || !draft) return;
+    const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+    try {
+      const artwork = await ArtworkApi.update(editingId, {
+        title: draft.title,
+        artist: draft.artist.trim() || null,
+        widthInches: Number(draft.widthInches),
+        heightInches: Number(draft.heightInches),
+        frameDepthInches: toNumber(draft.frameDepthInches),
+        hangingHardware: draft.hangingHardware || null,
+      });
+      setArtworks(prev => prev.map(a => (a.id === artwork.id ? artwork : a)));
+      setEditingId(null);
+      onArtworkUpdated(artwork);
+    } catch (err) {
+      console.error(err);
+      alert("Please check the artwork details. Sizes must be positive numbers of inches.");
+    }
+  };
+
+  const remove = async (artwork: ArtworkRecord) => {
+    if (!confirm(`Remove "${artwork.title}" from your collection?`)) return;
+    try {
+      await ArtworkApi.delete(artwork.id);
+      setArtworks(prev => prev.filter(a => a.id !== artwork.id));
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof RoomApiError && err.status === 409 ? `${err.message}. Take it down first.` : "Failed to delete.");
+    }
+  };
+
+  const field = (key: keyof ArtworkDraft, label: string, type = 'text') => (
+    <label className="flex flex-col gap-1 text-[10px] font-bold uppercase text-gray-500">
+      {label}
+      <input
+        type={type}
+        step={type === 'number' ? 0.125 : undefined}
+        value={draft?.[key] ?? ''}
+        onChange={e => setDraft(prev => (prev ? { ...prev, [key]: e.target.value } : prev))}
+        className="bg-secondary/30 rounded-md px-2 py-1 text-xs font-medium normal-case text-foreground outline-none focus:ring-2 focus:ring-blue-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <ArtUploader onArtProcessed={handleArtProcessed} />
+
+      <div className="flex items-center gap-2 bg-secondary/30 rounded-lg px-3">
+        <Search size={14} className="text-gray-500" />
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search title or artist"
+          className="flex-1 bg-transparent py-2 text-sm outline-none"
+        />
+      </div>
+
+      <div className="max-h-72 overflow-y-auto space-y-2">
+        {isLoading && artworks.length === 0 && (
+          <div className="flex justify-center p-3 text-gray-400"><Loader2 size={16} className="animate-spin" /></div>
+        )}
+        {!isLoading && artworks.length === 0 && (
+          <p className="p-2 text-xs text-gray-500">{query ? 'No artworks match your search.' : 'Add art to start your collection.'}</p>
+        )}
+
+        {artworks.map(artwork => (
+          <div key={artwork.id} className="rounded-xl border border-border bg-secondary/10">
+            <div
+              draggable
+              onDragStart={e => {
+                e.dataTransfer.setData(ARTWORK_DRAG_TYPE, JSON.stringify(artwork));
+                e.dataTransfer.effectAllowed = 'copy';
+              }}
+              className="flex items-center gap-3 p-2 cursor-grab active:cursor-grabbing"
+              title="Drag onto the wall"
+            >
+              <img src={artwork.imageUrl} alt={artwork.title} className="w-12 h-12 rounded-md object-cover bg-neutral-900" draggable={false} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold truncate">{artwork.title}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {artwork.artist ? `${artwork.artist} · ` : ''}{`${artwork.widthInches}" × ${artwork.heightInches}"`}
+                  {placedArtworkIds.includes(artwork.id) ? ' · on wall' : ''}
+                </p>
+              </div>
+              <div className="flex text-gray-400">
+                <button onClick={() => onPlace(artwork)} title="Place on wall" className="p-1 hover:bg-secondary rounded-md transition"><Plus size={14} /></button>
+                <button onClick={() => (editingId === artwork.id ? setEditingId(null) : startEditing(artwork))} title="Edit details" className="p-1 hover:bg-secondary rounded-md transition"><Pencil size={14} /></button>
+                <button onClick={() => remove(artwork)} title="Delete" className="p-1 text-red-400 hover:bg-red-900/30 rounded-md transition"><Trash2 size={14} /></button>
+              </div>
+            </div>
+
+            {editingId === artwork.id && draft && (
+              <div className="grid grid-cols-2 gap-2 p-2 border-t border-border">
+                <div className="col-span-2">{field('title', 'Title')}</div>
+                <div className="col-span-2">{field('artist', 'Artist')}</div>
+                {field('widthInches', 'Width (in)', 'number')}
+                {field('heightInches', 'Height (in)', 'number')}
+                {field('frameDepthInches', 'Frame depth (in)', 'number')}
+                <label className="flex flex-col gap-1 text-[10px] font-bold uppercase text-gray-500">
+                  Hardware
+                  <select
+                    value={draft.hangingHardware}
+                    onChange={e => setDraft({ ...draft, hangingHardware: e.target.value as HangingHardware | '' })}
+                    className="bg-secondary/30 rounded-md px-2 py-1 text-xs font-medium normal-case text-foreground outline-none"
+                  >
+                    <option value="">Unknown</option>
+                    {HANGING_HARDWARE.map(hardware => <option key={hardware} value={hardware}>{hardware}</option>)}
+                  </select>
+                </label>
+                <button onClick={saveDraft} className="col-span-2 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-xs font-bold transition">
+                  Save Details
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ArtInventory;
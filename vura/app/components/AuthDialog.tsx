@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { AuthApi } from '../utils/authApi';
+import { RoomApiError } from '../utils/roomApi';
+import type { SessionUser } from '../lib/authContract';
+
+interface AuthDialogProps {
+  onSignedIn: (user: SessionUser) => void;
+}
+
+type Mode = 'login' | 'register';
+
+const AuthDialog: React.FC<AuthDialogProps> = ({ onSignedIn }) => {
+  const [mode, setMode] = useState<Mode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const { user } = mode === 'login'
+        ? await AuthApi.login({ email, password })
+        : await AuthApi.register({ email, password, name: name.trim() || undefined });
+      if (user) onSignedIn(user);
+    } catch (err) {
+      if (err instanceof RoomApiError) {
+        setError(err.status === 400 ? 'Enter a valid email and a password of at least 8 characters.' : err.message);
+      } else {
+        console.error(err);
+        setError(mode === 'login' ? 'Failed to sign in.' : 'Failed to create account.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const input = (label: string, value: string, onChange: (value: string) => void, type = 'text') => (
+    <label className="flex flex-col gap-1 text-xs font-bold uppercase text-gray-500">
+      {label}
+      <input
+        type={type}
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="bg-secondary/30 rounded-lg px-3 py-2 text-sm font-medium normal-case text-foreground outline-none focus:ring-2 focus:ring-blue-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <form onSubmit={submit} className="bg-card w-full max-w-sm p-6 rounded-2xl border border-border shadow-2xl space-y-4">
+        <div>
+          <h3 className="text-xl font-bold">{mode === 'login' ? 'Sign in to Vura' : 'Create your account'}</h3>
+          <p className="text-sm text-gray-400 mt-1">Your rooms and art library are private to your account.</p>
+        </div>
+
+        {mode === 'register' && input('Name', name, setName)}
+        {input('Email', email, setEmail, 'email')}
+        {input('Password', password, setPassword, 'password')}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full flex items-center justify-center gap-2 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg font-bold transition"
+        >
+          {isSubmitting && <Loader2 size={16} className="animate-spin" />}
+          {mode === 'login' ? 'Sign In' : 'Create Account'}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+          className="w-full text-xs text-gray-400 hover:text-white transition"
+        >
+          {mode === 'login' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AuthDialog;
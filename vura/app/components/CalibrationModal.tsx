@@ -1,16 +1,23 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Rnd } from 'react-rnd';
-import { Ruler, Check, Scan, Sparkles, Brain } from 'lucide-react';
-import { LayoutEngine } from '../utils/layoutEngine';
+import { Ruler, Check, Scan, Sparkles, Brain, MoveHorizontal, MoveVertical, Plus, X } from 'lucide-react';
 import { ObjectDetection, DetectedObject } from '../utils/objectDetection';
+import { HomographyError, PerspectiveTransformer, WallCorners } from '../utils/perspectiveCorrection';
+import { WallDetection } from '../utils/wallDetection';
+import { CalibrationFit, ReferenceMeasurement, ScaleFit } from '../utils/calibrationFit';
 
 interface CalibrationModalProps {
   wallImageUrl: string;
   wallImageDimensions: { width: number; height: number };
-  onSave: (ppi: number, floorY: number, corners: { tl: {x:number,y:number}, tr: {x:number,y:number}, br: {x:number,y:number}, bl: {x:number,y:number} } | null) => void;
+  onSave: (ppi: number, floorY: number, corners: WallCorners | null, errorInches: number | null, wallAspect: number | null) => void;
   onClose: () => void;
 }
 
+// Height of the ruler's drag area; the measured line runs through its middle
+const RULER_HEIGHT = 40;
+// Detected outlines below this confidence are not worth starting from
+const MIN_WALL_CONFIDENCE = 0.3;
+
 const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallImageDimensions, onSave, onClose }) => {
   const [step, setStep] = useState<'select-method' | 'scanning' | 'calibrate' | 'verify' | 'set-corners' | 'set-floor'>('select-method');
   const [method, setMethod] = useState<'furniture' | 'standard' | 'tape' | null>(null);
@@ -21,6 +28,11 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
   
   // We use Rnd to simulate a draggable "ruler" line
   const [rulerPos, setRulerPos] = useState({ x: 100, y: 100 });
+  const [rulerAxis, setRulerAxis] = useState<'horizontal' | 'vertical'>('horizontal');
+  // Measurements already confirmed, in rendered coordinates. The ruler holds the one being made.
+  const [references, setReferences] = useState<ReferenceMeasurement[]>([]);
+  // Scale fitted to all references once the corners are set
+  const [scaleFit, setScaleFit] = useState<ScaleFit | null>(null);
   const [floorY, setFloorY] = useState(0); // Will init to height on mount/image load
 
   // AI Detection State
@@ -29,10 +41,12 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
   const [scanMessage, setScanMessage] = useState("Initializing AI...");
 
   // Perspective Corners (screen coordinates relative to container)
-  const [corners, setCorners] = useState<{ tl: {x:number,y:number}, tr: {x:number,y:number}, br: {x:number,y:number}, bl: {x:number,y:number} }>({ 
+  const [corners, setCorners] = useState<WallCorners>({ 
       tl: {x:0, y:0}, tr: {x:0, y:0}, br: {x:0, y:0}, bl: {x:0, y:0} 
   });
   const [cornersInitialized, setCornersInitialized] = useState(false);
+  // Confidence of the last automatic wall detection, null when it hasn't run or couldn't read the photo
+  const [wallConfidence, setWallConfidence] = useState<number | null>(null);
 
   // Magnifier State
   const [magnifier, setMagnifier] = useState({ show: false, x: 0, y: 0, bgX: 0, bgY: 0, zoom: 3 });
@@ -44,9 +58,18 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
      if (step === 'calibrate' && imageContainerRef.current) {
          const w = imageContainerRef.current.clientWidth;
          const h = imageContainerRef.current.clientHeight;
-         setRulerPos({ x: w / 2 - 100, y: h / 2 - 20 });
+         setRulerPos({ x: w / 2 - 100, y: h / 2 - RULER_HEIGHT / 2 });
      }
   }, [step, wallImageDimensions]);
+
+  // The measurement the ruler currently marks, along the middle of its drag area
+  const rulerReference = (): ReferenceMeasurement => {
+      const inches = parseFloat(realLengthInches);
+      const middle = RULER_HEIGHT / 2;
+      return rulerAxis === 'horizontal'
+          ? { start: { x: rulerPos.x, y: rulerPos.y + middle }, end: { x: rulerPos.x + lineLengthPx, y: rulerPos.y + middle }, inches }
+          : { start: { x: rulerPos.x + middle, y: rulerPos.y }, end: { x: rulerPos.x + middle, y: rulerPos.y + lineLengthPx }, inches };
+  };
   
   const runAIScan = async () => {
       setStep('scanning');
@@ -95,7 +118,8 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
       // User clicked a detected object
       // Snap Ruler to this object width
       setLineLengthPx(obj.bbox.width);
-      setRulerPos({ x: obj.bbox.x, y: obj.bbox.y + obj.bbox.height / 2 - 20 });
+      setRulerAxis('horizontal');
+      setRulerPos({ x: obj.bbox.x, y: obj.bbox.y + obj.bbox.height / 2 - RULER_HEIGHT / 2 });
       
       // Auto-set Floor Y to bottom of this object (heuristic)
       setFloorY(obj.bbox.y + obj.bbox.height);
@@ -169,6 +193,8 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
   const handleStandardObjectSelect = (type: 'switch' | 'door' | 'custom') => {
     setStandardObjectType(type);
     setStep('calibrate');
+    // Door and switch plate sizes are heights
+    if (type !== 'custom') setRulerAxis('vertical');
     if (type === 'switch') setRealLengthInches('4.5');
     if (type === 'door') setRealLengthInches('80');
     if (type === 'custom') setRealLengthInches('');
@@ -179,24 +205,106 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
     setStep('verify');
   };
 
+  // Keeps the verified measurement and goes back to mark another one
+  const handleAddReference = () => {
+    setReferences(prev => [...prev, rulerReference()]);
+    setStep('calibrate');
+  };
+
+  // Proposes the wall corners and floor seam from the photo's lines. False when nothing usable was found.
+  const detectWall = () => {
+      if (!imageRef.current || !imageContainerRef.current) return false;
+      try {
+          const suggestion = WallDetection.detect(imageRef.current, {
+              width: imageContainerRef.current.clientWidth,
+              height: imageContainerRef.current.clientHeight,
+          });
+          setWallConfidence(suggestion.confidence);
+          if (suggestion.confidence < MIN_WALL_CONFIDENCE) return false;
+          setCorners(suggestion.corners);
+          if (suggestion.floorY !== null) setFloorY(suggestion.floorY);
+          return true;
+      } catch (err) {
+          console.error(err);
+          setWallConfidence(null);
+          return false;
+      }
+  };
+
   const handleVerifyConfirm = () => {
       setStep('set-corners');
-      // Initialize corners to image bounds with some padding if not set
+      // Initialize corners to the detected wall, or to image bounds with some padding
       if (!cornersInitialized && imageContainerRef.current) {
           const w = imageContainerRef.current.clientWidth;
           const h = imageContainerRef.current.clientHeight;
-          // Default to slightly inside the image to encourage user to adjust
-          setCorners({
-              tl: { x: w * 0.1, y: h * 0.1 },
-              tr: { x: w * 0.9, y: h * 0.1 },
-              br: { x: w * 0.9, y: h * 0.9 },
-              bl: { x: w * 0.1, y: h * 0.9 }
-          });
+          if (!detectWall()) {
+              // Default to slightly inside the image to encourage user to adjust
+              setCorners({
+                  tl: { x: w * 0.1, y: h * 0.1 },
+                  tr: { x: w * 0.9, y: h * 0.1 },
+                  br: { x: w * 0.9, y: h * 0.9 },
+                  bl: { x: w * 0.1, y: h * 0.9 }
+              });
+          }
           setCornersInitialized(true);
       }
   };
 
+  /**
+   * Maps the rendered photo onto the wall the corners outline, and fits the scale of every reference there.
+   * Null when there is nothing to measure, or, after telling the user, when the corners don't outline a wall.
+   */
+  const measureWall = () => {
+    if (!imageContainerRef.current) return null;
+    const renderedWidth = imageContainerRef.current.clientWidth;
+    const intrinsicWidth = wallImageDimensions.width;
+    if (renderedWidth === 0 || intrinsicWidth === 0) return null;
+
+    const scaleFactor = renderedWidth / intrinsicWidth;
+
+    // Convert corners to Intrinsic coordinates
+    const intrinsicCorners: WallCorners = {
+        tl: { x: corners.tl.x / scaleFactor, y: corners.tl.y / scaleFactor },
+        tr: { x: corners.tr.x / scaleFactor, y: corners.tr.y / scaleFactor },
+        br: { x: corners.br.x / scaleFactor, y: corners.br.y / scaleFactor },
+        bl: { x: corners.bl.x / scaleFactor, y: corners.bl.y / scaleFactor },
+    };
+
+    // Art is laid out on the rectified wall, so the references and floor line are measured there too
+    let wall: PerspectiveTransformer;
+    try {
+        wall = PerspectiveTransformer.forWall(intrinsicCorners, wallImageDimensions);
+    } catch (err) {
+        if (!(err instanceof HomographyError)) throw err;
+        alert("The corners don't outline the wall. Drag each one to a corner of the wall and try again.");
+        setStep('set-corners');
+        return null;
+    }
+    const onWall = (frame: PerspectiveTransformer) => (point: { x: number; y: number }) =>
+        frame.toFlat(point.x / scaleFactor, point.y / scaleFactor);
+    const fit = CalibrationFit.fit([...references, rulerReference()], onWall(wall));
+    if (!fit) return null;
+
+    // References across and up the wall measured its proportions, which replace the ones estimated from the photo.
+    // The width of the rectified wall stays put, so the scale across it holds up the wall too.
+    let wallAspect: number | null = null;
+    if (fit.verticalPpi !== null) {
+        const origin = wall.toFlat(intrinsicCorners.tl.x, intrinsicCorners.tl.y);
+        const width = wall.toFlat(intrinsicCorners.tr.x, intrinsicCorners.tr.y).x - origin.x;
+        const height = wall.toFlat(intrinsicCorners.bl.x, intrinsicCorners.bl.y).y - origin.y;
+        const measured = (width / fit.ppi) / (height / fit.verticalPpi);
+        if (Number.isFinite(measured) && measured > 0) {
+            wallAspect = measured;
+            wall = PerspectiveTransformer.forWall(intrinsicCorners, wallImageDimensions, wallAspect);
+        }
+    }
+    return { corners: intrinsicCorners, toWall: onWall(wall), fit, wallAspect, renderedWidth };
+  };
+
   const handleCornersConfirm = () => {
+      const measured = measureWall();
+      if (!measured) return;
+      setScaleFit(measured.fit);
       setStep('set-floor');
       // FloorY likely already set by AI or default
       if(floorY === 0 && imageContainerRef.current) {
@@ -208,35 +316,21 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
      if (!handleValidInchInput()) return;
      if (!imageContainerRef.current) return;
 
-    // Calculate Scale Factor
     const renderedWidth = imageContainerRef.current.clientWidth;
-    const intrinsicWidth = wallImageDimensions.width;
-    
-    if (renderedWidth === 0 || intrinsicWidth === 0) {
-        onSave(1, wallImageDimensions.height, null); 
+    if (renderedWidth === 0 || wallImageDimensions.width === 0) {
+        onSave(1, wallImageDimensions.height, null, null, null);
         onClose();
         return;
     }
 
-    const scaleFactor = renderedWidth / intrinsicWidth;
-
-    // Intrinsic PPI
-    const intrinsicLineLengthPx = lineLengthPx / scaleFactor;
-    const itemsInches = parseFloat(realLengthInches);
-    const intrinsicPpi = LayoutEngine.calculatePixelsPerInch(intrinsicLineLengthPx, itemsInches);
+    const measured = measureWall();
+    if (!measured) return;
+    const { fit, toWall } = measured;
     
-    // Intrinsic Floor Y
-    const intrinsicFloorY = floorY / scaleFactor;
-
-    // Convert corners to Intrinsic coordinates
-    const intrinsicCorners = {
-        tl: { x: corners.tl.x / scaleFactor, y: corners.tl.y / scaleFactor },
-        tr: { x: corners.tr.x / scaleFactor, y: corners.tr.y / scaleFactor },
-        br: { x: corners.br.x / scaleFactor, y: corners.br.y / scaleFactor },
-        bl: { x: corners.bl.x / scaleFactor, y: corners.bl.y / scaleFactor },
-    };
+    // Intrinsic Floor Y, where the floor line crosses the middle of the photo
+    const intrinsicFloorY = toWall({ x: renderedWidth / 2, y: floorY }).y;
     
-    onSave(intrinsicPpi, intrinsicFloorY, intrinsicCorners);
+    onSave(fit.ppi, intrinsicFloorY, measured.corners, fit.errorInches, measured.wallAspect);
     onClose();
   };
 
@@ -390,31 +484,55 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
                  </button>
              ))}
 
+             {/* References already measured */}
+             {(step === 'calibrate' || step === 'verify') && references.length > 0 && (
+                 <svg className="absolute inset-0 pointer-events-none z-10 overflow-visible">
+                     {references.map((reference, i) => (
+                         <g key={i}>
+                             <line x1={reference.start.x} y1={reference.start.y} x2={reference.end.x} y2={reference.end.y} stroke="#10b981" strokeWidth="3" strokeLinecap="round" />
+                             <text x={(reference.start.x + reference.end.x) / 2 + 6} y={(reference.start.y + reference.end.y) / 2 - 6} fill="#10b981" fontSize="12" fontWeight="bold">{reference.inches}&quot;</text>
+                         </g>
+                     ))}
+                 </svg>
+             )}
+
              {/* Rnd Ruler (Show in calibrate & verify) */}
              {(step === 'calibrate' || step === 'verify') && (
                 <Rnd
-                  size={{ width: lineLengthPx, height: 40 }}
+                  size={rulerAxis === 'horizontal' ? { width: lineLengthPx, height: RULER_HEIGHT } : { width: RULER_HEIGHT, height: lineLengthPx }}
                   position={{ x: rulerPos.x, y: rulerPos.y }}
                   onDragStop={(e, d) => { if(step === 'calibrate') setRulerPos({ x: d.x, y: d.y }) }}
                   onResizeStart={(e) => { if(step === 'calibrate') updateMagnifier(e as any) }}
                   onResize={(e, direction, ref, delta, position) => {
                     if(step !== 'calibrate') return;
-                    setLineLengthPx(parseInt(ref.style.width));
+                    setLineLengthPx(parseInt(rulerAxis === 'horizontal' ? ref.style.width : ref.style.height));
                     setRulerPos(position);
                     updateMagnifier(e as any);
                   }}
                   onResizeStop={() => setMagnifier(prev => ({ ...prev, show: false }))}
                   bounds="parent"
-                  enableResizing={step === 'calibrate' ? { top: false, right: true, bottom: false, left: true, topRight: false, bottomRight: false, bottomLeft: false, topLeft: false } : false}
+                  enableResizing={step === 'calibrate' ? {
+                    top: rulerAxis === 'vertical', right: rulerAxis === 'horizontal', bottom: rulerAxis === 'vertical', left: rulerAxis === 'horizontal',
+                    topRight: false, bottomRight: false, bottomLeft: false, topLeft: false
+                  } : false}
                   disableDragging={step !== 'calibrate'}
                   className={`z-10 flex items-center ${step !== 'calibrate' ? 'pointer-events-none' : ''}`}
                 >
-                  <div className={`w-full h-8 flex flex-col items-center justify-center group ${step === 'calibrate' ? 'cursor-grab active:cursor-grabbing' : ''}`}>
-                    <div className={`w-full h-1 ${step === 'verify' ? 'bg-green-500' : 'bg-blue-600'} shadow-sm relative transition-colors duration-500`}>
-                      <div className={`absolute left-0 top-1/2 -translate-y-1/2 w-3 h-3 ${step === 'verify' ? 'bg-green-500' : 'bg-blue-600'} rounded-full shadow-md`}></div>
-                      <div className={`absolute right-0 top-1/2 -translate-y-1/2 w-3 h-3 ${step === 'verify' ? 'bg-green-500' : 'bg-blue-600'} rounded-full shadow-md`}></div>
+                  <div className={`${rulerAxis === 'horizontal' ? 'w-full h-8 flex-col' : 'h-full w-8 flex-row'} flex items-center justify-center group ${step === 'calibrate' ? 'cursor-grab active:cursor-grabbing' : ''}`}>
+                    <div className={`${rulerAxis === 'horizontal' ? 'w-full h-1' : 'h-full w-1'} ${step === 'verify' ? 'bg-green-500' : 'bg-blue-600'} shadow-sm relative transition-colors duration-500`}>
+                      {rulerAxis === 'horizontal' ? (
+                        <>
+                          <div className={`absolute left-0 top-1/2 -translate-y-1/2 w-3 h-3 ${step === 'verify' ? 'bg-green-500' : 'bg-blue-600'} rounded-full shadow-md`}></div>
+                          <div className={`absolute right-0 top-1/2 -translate-y-1/2 w-3 h-3 ${step === 'verify' ? 'bg-green-500' : 'bg-blue-600'} rounded-full shadow-md`}></div>
+                        </>
+                      ) : (
+                        <>
+                          <div className={`absolute top-0 left-1/2 -translate-x-1/2 w-3 h-3 ${step === 'verify' ? 'bg-green-500' : 'bg-blue-600'} rounded-full shadow-md`}></div>
+                          <div className={`absolute bottom-0 left-1/2 -translate-x-1/2 w-3 h-3 ${step === 'verify' ? 'bg-green-500' : 'bg-blue-600'} rounded-full shadow-md`}></div>
+                        </>
+                      )}
                       
-                      <div className="absolute -top-8 left-1/2 -translate-x-1/2 bg-black/70 text-white text-xs px-2 py-1 rounded whitespace-nowrap flex flex-col items-center">
+                      <div className={`absolute ${rulerAxis === 'horizontal' ? '-top-8 left-1/2 -translate-x-1/2' : 'left-4 top-1/2 -translate-y-1/2'} bg-black/70 text-white text-xs px-2 py-1 rounded whitespace-nowrap flex flex-col items-center`}>
                          <span className="font-bold mb-0.5 text-[10px] text-gray-300 uppercase tracking-wider">Drag to Align</span>
                          {step === 'verify' 
                            ? `${realLengthInches}" Verified`
@@ -534,7 +652,34 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
                       autoFocus
                     />
                     <span className="text-gray-400 font-bold">inches</span>
+                    <div className="flex rounded-xl border border-border overflow-hidden">
+                      {(['horizontal', 'vertical'] as const).map(axis => (
+                        <button
+                          key={axis}
+                          onClick={() => setRulerAxis(axis)}
+                          title={axis === 'horizontal' ? 'Measure a width' : 'Measure a height'}
+                          className={`p-3 transition ${rulerAxis === axis ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+                        >
+                          {axis === 'horizontal' ? <MoveHorizontal size={18} /> : <MoveVertical size={18} />}
+                        </button>
+                      ))}
+                    </div>
                   </div>
+                  {references.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                      <span className="text-gray-400">Also measured:</span>
+                      {references.map((reference, i) => (
+                        <button
+                          key={i}
+                          onClick={() => setReferences(prev => prev.filter((_, j) => j !== i))}
+                          title="Remove this reference"
+                          className="flex items-center gap-1 px-2 py-1 rounded-full bg-emerald-900/30 text-emerald-400 border border-emerald-900/50 hover:bg-emerald-900/50 transition font-bold"
+                        >
+                          {reference.inches}&quot; <X size={12} />
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex gap-2">
@@ -560,7 +705,10 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
                         </div>
                         <div>
                              <p className="font-bold text-foreground">Scale Verified</p>
-                             <p className="text-xs text-gray-400">1 inch = {(lineLengthPx / parseFloat(realLengthInches || '1')).toFixed(2)}px</p>
+                             <p className="text-xs text-gray-400">
+                                1 inch = {(lineLengthPx / parseFloat(realLengthInches || '1')).toFixed(2)}px
+                                {references.length > 0 && ` · ${references.length + 1} references`}
+                             </p>
                         </div>
                      </div>
                      <div className="flex gap-2">
@@ -570,6 +718,13 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
                          >
                            Adjust
                          </button>
+                         <button
+                           onClick={handleAddReference}
+                           title="Measure something else as well, so one slightly-off drag doesn't skew the scale"
+                           className="px-6 py-3 bg-transparent border border-emerald-600/60 text-emerald-400 rounded-xl font-bold hover:bg-emerald-900/30 transition flex items-center gap-2"
+                         >
+                           <Plus size={16} /> Add Reference
+                         </button>
                          <button
                            onClick={handleVerifyConfirm}
                            className="px-8 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition shadow-lg shadow-blue-900/20 flex items-center gap-2"
@@ -583,9 +738,19 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
                     <div>
                         <p className="font-bold text-foreground">Perspective Correction</p>
                         <p className="text-xs text-gray-400">Match the blue frame to the wall corners.</p>
+                        {wallConfidence !== null && (
+                            wallConfidence >= MIN_WALL_CONFIDENCE ? (
+                                <p className={`text-xs font-bold ${wallConfidence >= 0.7 ? 'text-green-400' : 'text-amber-400'}`}>
+                                    Wall detected with {Math.round(wallConfidence * 100)}% confidence. Drag any corner that is off.
+                                </p>
+                            ) : (
+                                <p className="text-xs font-bold text-amber-400">Couldn&apos;t find the wall&apos;s edges. Place the corners by hand.</p>
+                            )
+                        )}
                     </div>
                     <div className="flex gap-2">
                         <button onClick={() => setStep('verify')} className="px-6 py-3 bg-transparent border border-gray-600 text-gray-300 rounded-xl font-bold hover:bg-gray-800 transition">Back</button>
+                        <button onClick={detectWall} className="px-6 py-3 bg-transparent border border-purple-500/50 text-purple-300 rounded-xl font-bold hover:bg-purple-900/30 transition flex items-center gap-2"><Sparkles size={16} /> Detect</button>
                          <button onClick={handleCornersConfirm} className="px-8 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition shadow-lg shadow-blue-900/20 flex items-center gap-2">Next: Floor</button>
                      </div>
                 </div>
@@ -595,6 +760,19 @@ const CalibrationModal: React.FC<CalibrationModalProps> = ({ wallImageUrl, wallI
                     <div>
                         <p className="font-bold text-foreground">Set Floor Level</p>
                         <p className="text-xs text-gray-400">We will use this to set the perfect "eye level".</p>
+                        {scaleFit && (
+                            scaleFit.errorInches === null ? (
+                                <p className="text-xs text-gray-400">
+                                    {scaleFit.verticalPpi === null ? 'Scale from one reference.' : 'Scale measured across and up the wall.'} Add another reference to see how accurate it is.
+                                </p>
+                            ) : (
+                                <p className={`text-xs font-bold ${scaleFit.errorInches <= 0.25 ? 'text-green-400' : 'text-amber-400'}`}>
+                                    Scale fitted to {scaleFit.residuals.length} references, accurate to about ±{scaleFit.errorInches.toFixed(2)} in
+                                    {scaleFit.verticalPpi !== null && scaleFit.axisErrorInches.horizontal !== null && ` · ±${scaleFit.axisErrorInches.horizontal.toFixed(2)} across`}
+                                    {scaleFit.verticalPpi !== null && scaleFit.axisErrorInches.vertical !== null && ` · ±${scaleFit.axisErrorInches.vertical.toFixed(2)} up`}
+                                </p>
+                            )
+                        )}
                     </div>
                     <div className="flex gap-2">
                         <button
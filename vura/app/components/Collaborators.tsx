@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Users, X, Loader2 } from 'lucide-react';
+import { RoomApi, RoomApiError } from '../utils/roomApi';
+import { COLLABORATOR_ROLES, Collaborator, CollaboratorRole } from '../lib/authContract';
+
+interface CollaboratorsProps {
+  roomId: number;
+}
+
+const ROLE_LABELS: Record<CollaboratorRole, string> = {
+  editor: 'Can edit',
+  viewer: 'Can view',
+};
+
+const Collaborators: React.FC<CollaboratorsProps> = ({ roomId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>('editor');
+
+  const toggle = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+    setIsOpen(true);
+    setIsLoading(true);
+    try {
+      setCollaborators(await RoomApi.listCollaborators(roomId));
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const invite = async () => {
+    if (!email.trim()) return;
+    try {
+      const collaborator = await RoomApi.inviteCollaborator(roomId, { email, role });
+      setCollaborators(prev => [...prev.filter(c => c.userId !== collaborator.userId), collaborator]);
+      setEmail('');
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof RoomApiError && err.status !== 500 ? err.message : "Failed to invite.");
+    }
+  };
+
+  const remove = async (userId: number) => {
+    try {
+      await RoomApi.removeCollaborator(roomId, userId);
+      setCollaborators(prev => prev.filter(c => c.userId !== userId));
+    } catch (err) {
+      console.error(err);
+      alert("Failed to remove collaborator.");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button onClick={toggle} className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-secondary/30 hover:bg-secondary rounded-lg transition font-bold text-xs border border-border">
+        <Users size={14} /> {isOpen ? 'Hide Collaborators' : 'Collaborators'}
+      </button>
+
+      {isOpen && (
+        <div className="space-y-2 rounded-lg border border-border p-2">
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && invite()}
+              placeholder="Email of an account"
+              className="flex-1 min-w-0 bg-secondary/30 rounded-md px-2 py-1 text-xs outline-none"
+            />
+            <select
+              value={role}
+              onChange={e => setRole(e.target.value as CollaboratorRole)}
+              className="bg-secondary/30 rounded-md px-1 py-1 text-xs outline-none"
+            >
+              {COLLABORATOR_ROLES.map(value => <option key={value} value={value}>{ROLE_LABELS[value]}</option>)}
+            </select>
+            <button onClick={invite} className="px-2 py-1 text-blue-400 hover:bg-blue-900/30 rounded-md transition font-bold text-xs">
+              Invite
+            </button>
+          </div>
+
+          <div className="max-h-48 overflow-y-auto divide-y divide-border">
+            {isLoading ? (
+              <div className="flex justify-center p-3 text-gray-400"><Loader2 size={16} className="animate-spin" /></div>
+            ) : collaborators.length === 0 ? (
+              <p className="p-2 text-xs text-gray-500">Only you can open this room.</p>
+            ) : collaborators.map(collaborator => (
+              <div key={collaborator.userId} className="flex items-center justify-between gap-2 py-2 text-xs">
+                <div className="min-w-0">
+                  <p className="text-gray-300 truncate">{collaborator.name ?? collaborator.email}</p>
+                  <p className="text-gray-500 truncate">{collaborator.name ? `${collaborator.email} · ` : ''}{ROLE_LABELS[collaborator.role]}</p>
+                </div>
+                <button onClick={() => remove(collaborator.userId)} title="Remove access" className="p-1 text-red-400 hover:bg-red-900/30 rounded-md transition">
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Collaborators;
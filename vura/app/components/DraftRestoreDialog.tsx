@@ -0,0 +1,33 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { EditorDraft } from '../utils/draftStore';
+
+interface DraftRestoreDialogProps {
+  draft: EditorDraft;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const DraftRestoreDialog: React.FC<DraftRestoreDialogProps> = ({ draft, onRestore, onDiscard }) => {
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-card w-full max-w-md p-6 rounded-2xl border border-border shadow-2xl">
+        <h3 className="text-xl font-bold mb-2 text-blue-400">Restore Unsaved Work?</h3>
+        <p className="text-gray-300 mb-6 leading-relaxed">
+          &ldquo;{draft.roomName}&rdquo; has changes from {new Date(draft.savedAt).toLocaleString()} that were never saved,
+          with {draft.artPieces.length} {draft.artPieces.length === 1 ? 'piece' : 'pieces'} on the wall.
+        </p>
+        <div className="flex justify-end gap-2">
+          <button onClick={onDiscard} className="px-4 py-2 text-gray-400 hover:text-white font-bold rounded-lg transition">
+            Discard
+          </button>
+          <button onClick={onRestore} className="flex items-center gap-2 px-6 py-2 bg-white text-black font-bold rounded-lg hover:bg-gray-200 transition">
+            <RotateCcw size={16} /> Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DraftRestoreDialog;
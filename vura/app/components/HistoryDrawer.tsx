@@ -0,0 +1,181 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Search, Image as ImageIcon, FolderOpen, Pencil, Copy, Trash2, Loader2 } from 'lucide-react';
+import { RoomApi } from '../utils/roomApi';
+import type { RoomSort, RoomSummary } from '../lib/roomContract';
+
+interface HistoryDrawerProps {
+  isOpen: boolean;
+  currentRoomId: number | null;
+  onClose: () => void;
+  onOpenRoom: (roomId: number) => void;
+  onRoomRenamed: (roomId: number, name: string) => void;
+  onRoomDeleted: (roomId: number) => void;
+}
+
+const SORT_LABELS: Record<RoomSort, string> = {
+  updated: 'Last modified',
+  created: 'Newest',
+  name: 'Name',
+};
+
+const PAGE_SIZE = 20;
+
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ isOpen, currentRoomId, onClose, onOpenRoom, onRoomRenamed, onRoomDeleted }) => {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<RoomSort>('updated');
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const fetchPage = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const page = await RoomApi.list({ q: query.trim(), sort, cursor, limit: PAGE_SIZE });
+      setRooms(prev => (cursor ? [...prev, ...page.items] : page.items));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query, sort]);
+
+  // Reload from the first page whenever the drawer opens or the filter changes, debounced for typing
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setTimeout(() => fetchPage(), 250);
+    return () => clearTimeout(timer);
+  }, [isOpen, fetchPage]);
+
+  const startRename = (room: RoomSummary) => {
+    setRenamingId(room.id);
+    setDraftName(room.name);
+  };
+
+  const commitRename = async (roomId: number) => {
+    const name = draftName.trim();
+    setRenamingId(null);
+    if (!name) return;
+    try {
+      await RoomApi.patch(roomId, { name });
+      setRooms(prev => prev.map(room => (room.id === roomId ? { ...room, name } : room)));
+      onRoomRenamed(roomId, name);
+    } catch (err) {
+      console.error(err);
+      alert("Failed to rename.");
+    }
+  };
+
+  const duplicate = async (roomId: number) => {
+    try {
+      await RoomApi.duplicate(roomId);
+      await fetchPage();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to duplicate.");
+    }
+  };
+
+  const remove = async (room: RoomSummary) => {
+    if (!confirm(`Delete "${room.name}" and all of its revisions?`)) return;
+    try {
+      await RoomApi.delete(room.id);
+      setRooms(prev => prev.filter(r => r.id !== room.id));
+      onRoomDeleted(room.id);
+    } catch (err) {
+      console.error(err);
+      alert("Failed to delete.");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-card border-l border-border shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-bold">Your Rooms</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white transition"><X size={20} /></button>
+        </div>
+
+        <div className="flex gap-2 p-4 border-b border-border">
+          <div className="flex-1 flex items-center gap-2 bg-secondary/30 rounded-lg px-3">
+            <Search size={14} className="text-gray-500" />
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search by name"
+              className="flex-1 bg-transparent py-2 text-sm outline-none"
+            />
+          </div>
+          <select
+            value={sort}
+            onChange={e => setSort(e.target.value as RoomSort)}
+            className="bg-secondary/30 rounded-lg px-2 text-xs outline-none"
+          >
+            {Object.entries(SORT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-border">
+          {rooms.map(room => (
+            <div key={room.id} className={`flex gap-3 p-3 ${room.id === currentRoomId ? 'bg-blue-900/10' : ''}`}>
+              <button onClick={() => onOpenRoom(room.id)} className="w-20 h-14 shrink-0 rounded-md overflow-hidden bg-neutral-900 flex items-center justify-center">
+                {room.wallImageUrl ? (
+                  <img src={room.wallImageUrl} alt={room.name} className="w-full h-full object-cover" />
+                ) : (
+                  <ImageIcon size={18} className="text-gray-600" />
+                )}
+              </button>
+
+              <div className="flex-1 min-w-0">
+                {renamingId === room.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onBlur={() => commitRename(room.id)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full bg-secondary/30 rounded-md px-2 py-0.5 text-sm font-bold outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                ) : (
+                  <p className="text-sm font-bold truncate">{room.name}</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  {room.pieceCount} pieces · {room.updatedAt ? new Date(room.updatedAt).toLocaleDateString() : 'Unknown date'}
+                </p>
+                <div className="flex gap-1 mt-1 text-gray-400">
+                  <button onClick={() => onOpenRoom(room.id)} title="Open" className="p-1 hover:bg-secondary rounded-md transition"><FolderOpen size={14} /></button>
+                  <button onClick={() => startRename(room)} title="Rename" className="p-1 hover:bg-secondary rounded-md transition"><Pencil size={14} /></button>
+                  <button onClick={() => duplicate(room.id)} title="Duplicate" className="p-1 hover:bg-secondary rounded-md transition"><Copy size={14} /></button>
+                  <button onClick={() => remove(room)} title="Delete" className="p-1 text-red-400 hover:bg-red-900/30 rounded-md transition"><Trash2 size={14} /></button>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {isLoading && (
+            <div className="flex justify-center p-4 text-gray-400"><Loader2 size={18} className="animate-spin" /></div>
+          )}
+          {!isLoading && rooms.length === 0 && (
+            <p className="p-4 text-sm text-gray-500">{query ? 'No rooms match your search.' : 'No saved rooms yet.'}</p>
+          )}
+          {!isLoading && nextCursor && (
+            <button onClick={() => fetchPage(nextCursor)} className="w-full p-3 text-xs font-bold text-blue-400 hover:bg-secondary/30 transition">
+              Load more
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryDrawer;
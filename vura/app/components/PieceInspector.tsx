@@ -0,0 +1,76 @@
+import React from 'react';
+import type { WallRect } from '../utils/wallSpace';
+
+interface PieceInspectorProps {
+  piece: WallRect & { id: number; locked: boolean };
+  // True while the scale is the 8ft estimate rather than a calibration
+  isEstimated: boolean;
+  // False for viewers, who see the placement but can't change it
+  canEdit: boolean;
+  onChange: (rect: WallRect) => void;
+}
+
+const FIELDS = [
+  { key: 'x', label: 'From left' },
+  { key: 'y', label: 'From floor' },
+  { key: 'width', label: 'Width' },
+  { key: 'height', label: 'Height' },
+] as const;
+
+// Placements are shown to the nearest thousandth, which keeps eighths exact
+const format = (inches: number) => String(Math.round(inches * 1000) / 1000);
+
+/**
+ * Exact placement of one piece in inches. "From floor" is measured to the bottom edge of the frame.
+ * Width and height keep the artwork's proportions, like resizing on the wall.
+ */
+const PieceInspector: React.FC<PieceInspectorProps> = ({ piece, isEstimated, canEdit, onChange }) => {
+  const apply = (field: (typeof FIELDS)[number]['key'], input: HTMLInputElement) => {
+    const value = parseFloat(input.value);
+    const isSize = field === 'width' || field === 'height';
+    if (!Number.isFinite(value) || (isSize && value <= 0)) {
+      input.value = format(piece[field]);
+      return;
+    }
+    if (value === piece[field]) return;
+
+    const { x, y, width, height } = piece;
+    if (field === 'width') {
+      onChange({ x, y, width: value, height: height * (value / width) });
+    } else if (field === 'height') {
+      onChange({ x, y, width: width * (value / height), height: value });
+    } else {
+      onChange({ x, y, width, height, [field]: value });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex flex-col gap-1 text-[11px] font-bold text-gray-400 uppercase tracking-wider">
+            {label}
+            <div className="flex items-center gap-1 bg-secondary/30 rounded-lg px-2 focus-within:ring-2 focus-within:ring-blue-500">
+              <input
+                // Remounts with the new value whenever the piece moves by other means
+                key={`${piece.id}-${piece[key]}`}
+                type="number"
+                step={0.125}
+                defaultValue={format(piece[key])}
+                disabled={!canEdit || piece.locked}
+                onBlur={(e) => apply(key, e.currentTarget)}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="w-full bg-transparent py-1.5 text-sm font-medium text-foreground normal-case outline-none disabled:opacity-50"
+              />
+              <span className="text-gray-500 normal-case">in</span>
+            </div>
+          </label>
+        ))}
+      </div>
+      {canEdit && piece.locked && <p className="text-[11px] text-gray-500">Unlock the piece to change its placement.</p>}
+      {isEstimated && <p className="text-[11px] text-amber-400">Estimated from an 8 ft wall. Calibrate for exact measurements.</p>}
+    </div>
+  );
+};
+
+export default PieceInspector;
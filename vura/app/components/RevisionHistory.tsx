@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import { RoomApi } from '../utils/roomApi';
+import type { RevisionSummary } from '../lib/roomContract';
+
+interface RevisionHistoryProps {
+  roomId: number;
+  onRestored: () => void;
+}
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ roomId, onRestored }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const toggle = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+    setIsOpen(true);
+    setIsLoading(true);
+    try {
+      setRevisions(await RoomApi.listRevisions(roomId));
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const restore = async (revisionId: number) => {
+    try {
+      await RoomApi.restoreRevision(roomId, revisionId);
+      setIsOpen(false);
+      onRestored();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to restore.");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button onClick={toggle} className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-secondary/30 hover:bg-secondary rounded-lg transition font-bold text-xs border border-border">
+        <History size={14} /> {isOpen ? 'Hide Revisions' : 'Revisions'}
+      </button>
+
+      {isOpen && (
+        <div className="max-h-48 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+          {isLoading ? (
+            <div className="flex justify-center p-3 text-gray-400"><Loader2 size={16} className="animate-spin" /></div>
+          ) : revisions.length === 0 ? (
+            <p className="p-3 text-xs text-gray-500">No saved revisions yet.</p>
+          ) : revisions.map((revision, index) => (
+            <div key={revision.id} className="flex items-center justify-between gap-2 p-2 text-xs">
+              <div>
+                <p className="font-bold text-gray-300">{revision.createdAt ? new Date(revision.createdAt).toLocaleString() : 'Unknown date'}</p>
+                <p className="text-gray-500">{revision.pieceCount} pieces{index === 0 ? ' · current' : ''}</p>
+              </div>
+              {index > 0 && (
+                <button onClick={() => restore(revision.id)} className="flex items-center gap-1 px-2 py-1 text-blue-400 hover:bg-blue-900/30 rounded-md transition font-bold">
+                  <RotateCcw size={12} /> Restore
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Link2, Copy, X, Loader2 } from 'lucide-react';
+import { RoomApi } from '../utils/roomApi';
+import type { ShareLink } from '../lib/roomContract';
+
+interface ShareLinksProps {
+  roomId: number;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never expires', days: null },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 },
+];
+
+const ShareLinks: React.FC<ShareLinksProps> = ({ roomId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+
+  const absoluteUrl = (link: ShareLink) => `${window.location.origin}${link.path}`;
+
+  const toggle = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+    setIsOpen(true);
+    setIsLoading(true);
+    try {
+      setLinks(await RoomApi.listShareLinks(roomId));
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const create = async () => {
+    try {
+      const link = await RoomApi.createShareLink(roomId, { expiresInDays });
+      setLinks(prev => [link, ...prev]);
+      await navigator.clipboard?.writeText(absoluteUrl(link)).catch(() => undefined);
+    } catch (err) {
+      console.error(err);
+      alert("Failed to create share link.");
+    }
+  };
+
+  const revoke = async (token: string) => {
+    try {
+      await RoomApi.revokeShareLink(roomId, token);
+      setLinks(prev => prev.filter(link => link.token !== token));
+    } catch (err) {
+      console.error(err);
+      alert("Failed to revoke share link.");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button onClick={toggle} className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-secondary/30 hover:bg-secondary rounded-lg transition font-bold text-xs border border-border">
+        <Link2 size={14} /> {isOpen ? 'Hide Share Links' : 'Share'}
+      </button>
+
+      {isOpen && (
+        <div className="space-y-2 rounded-lg border border-border p-2">
+          <div className="flex gap-2">
+            <select
+              value={expiresInDays ?? ''}
+              onChange={e => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+              className="flex-1 bg-secondary/30 rounded-md px-2 py-1 text-xs outline-none"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+              ))}
+            </select>
+            <button onClick={create} className="px-2 py-1 text-blue-400 hover:bg-blue-900/30 rounded-md transition font-bold text-xs">
+              Create share link
+            </button>
+          </div>
+
+          <div className="max-h-48 overflow-y-auto divide-y divide-border">
+            {isLoading ? (
+              <div className="flex justify-center p-3 text-gray-400"><Loader2 size={16} className="animate-spin" /></div>
+            ) : links.length === 0 ? (
+              <p className="p-2 text-xs text-gray-500">No share links yet.</p>
+            ) : links.map(link => (
+              <div key={link.token} className="flex items-center justify-between gap-2 py-2 text-xs">
+                <div className="min-w-0">
+                  <p className="font-mono text-gray-300 truncate">{link.path}</p>
+                  <p className="text-gray-500">
+                    {!link.active ? 'Expired' : link.expiresAt ? `Until ${new Date(link.expiresAt).toLocaleDateString()}` : 'No expiry'}
+                  </p>
+                </div>
+                <div className="flex shrink-0">
+                  <button onClick={() => navigator.clipboard?.writeText(absoluteUrl(link))} title="Copy link" className="p-1 text-gray-400 hover:bg-secondary rounded-md transition">
+                    <Copy size={12} />
+                  </button>
+                  <button onClick={() => revoke(link.token)} title="Revoke" className="p-1 text-red-400 hover:bg-red-900/30 rounded-md transition">
+                    <X size={12} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShareLinks;
@@ -0,0 +1,75 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { WallSpace, WallRect } from '../utils/wallSpace';
+import type { WallCorners } from '../utils/perspectiveCorrection';
+
+interface WallPreviewProps {
+  wallImageUrl: string;
+  ppi: number;
+  floorY: number;
+  // Intrinsic size of the wall image, measured on load when unknown
+  imageWidth: number | null;
+  imageHeight: number | null;
+  wallCorners: WallCorners | null;
+  wallAspect: number | null;
+  pieces: Array<WallRect & { id: number; url: string }>;
+}
+
+/**
+ * Read-only rendering of a wall with its art, laid out exactly like the editor canvas.
+ */
+const WallPreview: React.FC<WallPreviewProps> = ({ wallImageUrl, ppi, floorY, imageWidth, imageHeight, wallCorners, wallAspect, pieces }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [canvasWidth, setCanvasWidth] = useState(0);
+  const [measured, setMeasured] = useState({ width: 0, height: 0 });
+
+  const width = imageWidth || measured.width;
+  const height = imageHeight || measured.height;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setCanvasWidth(container.clientWidth));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const wallSpace = useMemo(() => {
+    const scale = width > 0 && canvasWidth > 0 ? canvasWidth / width : 1;
+    return new WallSpace({ ppi, floorY, imageWidth: width, imageHeight: height, wallCorners, wallAspect }, scale);
+  }, [ppi, floorY, width, height, wallCorners, wallAspect, canvasWidth]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full shadow-2xl rounded-lg overflow-hidden border-2 border-gray-800"
+      style={{ aspectRatio: width ? `${width}/${height}` : '16/9' }}
+    >
+      <img
+        src={wallImageUrl}
+        alt="Wall"
+        className="w-full h-full object-contain"
+        onLoad={e => setMeasured({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+      />
+      {width > 0 && (
+        <div className="absolute inset-0" style={{ transform: wallSpace.layerTransform, transformOrigin: '0 0' }}>
+          {pieces.map(piece => {
+            const rect = wallSpace.toScreenRect(piece);
+            return (
+              <img
+                key={piece.id}
+                src={piece.url}
+                alt="Art Piece"
+                className="absolute object-cover border-2 md:border-4 border-white shadow-2xl"
+                style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+              />
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WallPreview;
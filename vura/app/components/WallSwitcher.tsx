@@ -0,0 +1,69 @@
+import React from 'react';
+import { FolderPlus, Plus, Image as ImageIcon, Unlink, Download } from 'lucide-react';
+import type { ProjectDocument } from '../lib/projectContract';
+
+interface WallSwitcherProps {
+  project: ProjectDocument | null;
+  currentRoomId: number | null;
+  onCreateProject: () => void;
+  onSelectWall: (roomId: number) => void;
+  onAddWall: () => void;
+  onRemoveWall: (roomId: number) => void;
+  onDownloadGuide: () => void;
+}
+
+const WallSwitcher: React.FC<WallSwitcherProps> = ({ project, currentRoomId, onCreateProject, onSelectWall, onAddWall, onRemoveWall, onDownloadGuide }) => {
+  if (!project) {
+    return (
+      <button onClick={onCreateProject} className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-secondary/30 hover:bg-secondary rounded-lg transition font-bold text-xs border border-border">
+        <FolderPlus size={14} /> Start a Multi-Wall Project
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-bold text-gray-300 truncate">{project.name}</p>
+      <div className="rounded-lg border border-border divide-y divide-border">
+        {project.walls.map((wall, index) => (
+          <div
+            key={wall.id}
+            className={`flex items-center gap-2 p-2 text-xs ${wall.id === currentRoomId ? 'bg-blue-900/20' : 'hover:bg-secondary/30 cursor-pointer'}`}
+            onClick={() => wall.id !== currentRoomId && onSelectWall(wall.id)}
+          >
+            <div className="w-10 h-7 shrink-0 rounded overflow-hidden bg-neutral-900 flex items-center justify-center">
+              {wall.wallImageUrl ? (
+                <img src={wall.wallImageUrl} alt={wall.name} className="w-full h-full object-cover" />
+              ) : (
+                <ImageIcon size={12} className="text-gray-600" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className={`font-bold truncate ${wall.id === currentRoomId ? 'text-blue-400' : 'text-gray-300'}`}>{index + 1}. {wall.name}</p>
+              <p className="text-gray-500">{wall.pieceCount} pieces</p>
+            </div>
+            {wall.id === currentRoomId && project.walls.length > 1 && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onRemoveWall(wall.id); }}
+                title="Remove from project"
+                className="p-1 text-gray-400 hover:bg-secondary rounded-md transition"
+              >
+                <Unlink size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button onClick={onAddWall} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-secondary/30 hover:bg-secondary rounded-lg transition font-bold text-xs border border-border">
+          <Plus size={14} /> Add Wall
+        </button>
+        <button onClick={onDownloadGuide} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-secondary/30 hover:bg-secondary rounded-lg transition font-bold text-xs border border-border">
+          <Download size={14} /> Project Guide
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WallSwitcher;
@@ -0,0 +1,62 @@
+import { and, eq } from 'drizzle-orm';
+import { db } from './db';
+import { rooms, roomCollaborators, users } from './schema';
+import type { CollaboratorRole, RoomAccessRole } from './authContract';
+
+export type AccessLevel = 'read' | 'write' | 'owner';
+
+const GRANTS: Record<RoomAccessRole, AccessLevel[]> = {
+  owner: ['read', 'write', 'owner'],
+  editor: ['read', 'write'],
+  viewer: ['read'],
+};
+
+export function allows(role: RoomAccessRole, level: AccessLevel): boolean {
+  return GRANTS[role].includes(level);
+}
+
+/**
+ * The user's role on a room, or null when the room doesn't exist or isn't shared with them.
+ */
+export async function getRoomRole(userId: number, roomId: number): Promise<RoomAccessRole | null> {
+  const [row] = await db
+    .select({ ownerId: rooms.ownerId, role: roomCollaborators.role })
+    .from(rooms)
+    .leftJoin(roomCollaborators, and(eq(roomCollaborators.roomId, rooms.id), eq(roomCollaborators.userId, userId)))
+    .where(eq(rooms.id, roomId));
+
+  if (!row) return null;
+  if (row.ownerId === userId) return 'owner';
+  return row.role;
+}
+
+export async function listCollaborators(roomId: number) {
+  return db
+    .select({ userId: users.id, email: users.email, name: users.name, role: roomCollaborators.role })
+    .from(roomCollaborators)
+    .innerJoin(users, eq(roomCollaborators.userId, users.id))
+    .where(eq(roomCollaborators.roomId, roomId))
+    .orderBy(users.email);
+}
+
+/**
+ * Grants a user access to a room, or changes the role of an existing collaborator.
+ */
+export async function setCollaborator(roomId: number, userId: number, role: CollaboratorRole) {
+  await db
+    .insert(roomCollaborators)
+    .values({ roomId, userId, role })
+    .onConflictDoUpdate({ target: [roomCollaborators.roomId, roomCollaborators.userId], set: { role } });
+}
+
+/**
+ * @returns false when the user was not a collaborator.
+ */
+export async function removeCollaborator(roomId: number, userId: number): Promise<boolean> {
+  const removed = await db
+    .delete(roomCollaborators)
+    .where(and(eq(roomCollaborators.roomId, roomId), eq(roomCollaborators.userId, userId)))
+    .returning({ userId: roomCollaborators.userId });
+
+  return removed.length > 0;
+}
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+/**
+ * Request and response contracts for the art library (/api/artworks).
+ */
+
+export const HANGING_HARDWARE = ['sawtooth', 'wire', 'd-rings', 'french-cleat', 'none'] as const;
+
+const artworkFields = {
+  imageUrl: z.string().min(1),
+  title: z.string().trim().min(1).max(200),
+  artist: z.string().trim().max(200).nullable(),
+  widthInches: z.number().positive(),
+  heightInches: z.number().positive(),
+  frameDepthInches: z.number().nonnegative().nullable(),
+  hangingHardware: z.enum(HANGING_HARDWARE).nullable(),
+};
+
+// POST /api/artworks: the image, title and size are required
+export const artworkCreateSchema = z.object(artworkFields).partial().extend({
+  imageUrl: artworkFields.imageUrl,
+  title: artworkFields.title,
+  widthInches: artworkFields.widthInches,
+  heightInches: artworkFields.heightInches,
+});
+
+// PATCH /api/artworks/[id]: only the fields present change
+export const artworkPatchSchema = z.object(artworkFields).partial();
+
+export const artworkRecordSchema = z.object({
+  id: z.number().int(),
+  ...artworkFields,
+  title: z.string(),
+  artist: z.string().nullable(),
+  createdAt: z.string().nullable(),
+});
+
+export type HangingHardware = (typeof HANGING_HARDWARE)[number];
+export type ArtworkCreatePayload = z.infer<typeof artworkCreateSchema>;
+export type ArtworkPatchPayload = z.infer<typeof artworkPatchSchema>;
+export type ArtworkRecord = z.infer<typeof artworkRecordSchema>;
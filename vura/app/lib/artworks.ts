@@ -0,0 +1,70 @@
+import { and, count, desc, eq, ilike, or } from 'drizzle-orm';
+import { db } from './db';
+import { artworks, artPieces, NewArtwork } from './schema';
+import type { ArtworkPatchPayload } from './artworkContract';
+
+// Every query is scoped to the owner: other people's artworks behave as if they didn't exist
+const owned = (ownerId: number, artworkId: number) => and(eq(artworks.id, artworkId), eq(artworks.ownerId, ownerId));
+
+/**
+ * Lists a user's art library, newest first, optionally filtered by title or artist.
+ */
+export async function listArtworks(ownerId: number, q?: string) {
+  const pattern = q ? `%${q.replace(/[\\%_]/g, '\\$&')}%` : null;
+  return db
+    .select()
+    .from(artworks)
+    .where(and(
+      eq(artworks.ownerId, ownerId),
+      pattern ? or(ilike(artworks.title, pattern), ilike(artworks.artist, pattern)) : undefined
+    ))
+    .orderBy(desc(artworks.createdAt), desc(artworks.id));
+}
+
+export async function getArtwork(ownerId: number, artworkId: number) {
+  const [artwork] = await db.select().from(artworks).where(owned(ownerId, artworkId));
+  return artwork ?? null;
+}
+
+export async function createArtwork(ownerId: number, artwork: Omit<NewArtwork, 'ownerId'>) {
+  const [created] = await db.insert(artworks).values({ ...artwork, ownerId }).returning();
+  return created;
+}
+
+/**
+ * Updates an artwork. Placed pieces follow a new image or size, so the
+ * library stays the single place where an artwork's dimensions are edited.
+ * @returns The updated artwork, or null when it does not exist.
+ */
+export async function updateArtwork(ownerId: number, artworkId: number, changes: ArtworkPatchPayload) {
+  const [updated] = await db.update(artworks).set(changes).where(owned(ownerId, artworkId)).returning();
+  if (!updated) return null;
+
+  if (changes.imageUrl !== undefined || changes.widthInches !== undefined || changes.heightInches !== undefined) {
+    await db
+      .update(artPieces)
+      .set({
+        imageUrl: updated.imageUrl,
+        realWidthInches: updated.widthInches,
+        realHeightInches: updated.heightInches,
+      })
+      .where(eq(artPieces.artworkId, artworkId));
+  }
+  return updated;
+}
+
+/**
+ * Counts the pieces currently showing an artwork, across all rooms.
+ */
+export async function countPlacements(artworkId: number): Promise<number> {
+  const [row] = await db.select({ placements: count() }).from(artPieces).where(eq(artPieces.artworkId, artworkId));
+  return row.placements;
+}
+
+/**
+ * @returns false when the artwork does not exist.
+ */
+export async function deleteArtwork(ownerId: number, artworkId: number): Promise<boolean> {
+  const deleted = await db.delete(artworks).where(owned(ownerId, artworkId)).returning({ id: artworks.id });
+  return deleted.length > 0;
+}
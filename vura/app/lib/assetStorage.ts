@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Where asset binaries live. Keys are content hashes, so implementations never
+ * have to handle overwrites with different data.
+ */
+export interface AssetStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  has(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  list(): Promise<string[]>;
+}
+
+/**
+ * Stores assets as plain files under a local directory.
+ * Files are sharded by the first two hash characters to keep directories small.
+ */
+export class LocalAssetStorage implements AssetStorage {
+  constructor(private readonly rootDir: string) {}
+
+  private filePath(key: string): string {
+    return path.join(this.rootDir, key.slice(0, 2), key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const target = this.filePath(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated asset behind
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, target);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.filePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async list(): Promise<string[]> {
+    let shards: string[];
+    try {
+      shards = await fs.readdir(this.rootDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const keys: string[] = [];
+    for (const shard of shards) {
+      const files = await fs.readdir(path.join(this.rootDir, shard));
+      keys.push(...files.filter(file => !file.endsWith('.tmp')));
+    }
+    return keys;
+  }
+}
+
+// Backends selectable through ASSET_STORAGE. Register new ones here.
+const backends: Record<string, () => AssetStorage> = {
+  local: () => new LocalAssetStorage(process.env.ASSET_STORAGE_DIR || path.join(process.cwd(), '.data', 'assets')),
+};
+
+let storage: AssetStorage | null = null;
+
+/**
+ * Returns the configured storage backend, defaulting to the local filesystem.
+ */
+export function getAssetStorage(): AssetStorage {
+  if (!storage) {
+    const name = process.env.ASSET_STORAGE || 'local';
+    const factory = backends[name];
+    if (!factory) throw new Error(`Unknown ASSET_STORAGE backend: ${name}`);
+    storage = factory();
+  }
+  return storage;
+}
@@ -0,0 +1,138 @@
+import { createHash } from 'crypto';
+import { eq, inArray } from 'drizzle-orm';
+import { db } from './db';
+import { assets, rooms, artPieces, artworks, roomRevisions } from './schema';
+import { getAssetStorage } from './assetStorage';
+
+const ASSET_URL_PREFIX = '/api/assets/';
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+// Clients upload before they save, so fresh assets get an hour to become referenced
+const GC_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+export function isAssetHash(value: string): boolean {
+  return HASH_PATTERN.test(value);
+}
+
+export function assetUrl(hash: string): string {
+  return `${ASSET_URL_PREFIX}${hash}`;
+}
+
+/**
+ * Extracts the content hash from an asset URL, or null for any other URL.
+ */
+export function parseAssetUrl(url: string | null | undefined): string | null {
+  if (!url || !url.startsWith(ASSET_URL_PREFIX)) return null;
+  const hash = url.slice(ASSET_URL_PREFIX.length);
+  return isAssetHash(hash) ? hash : null;
+}
+
+// Raster formats that are safe to serve from our own origin, by their leading bytes.
+// SVG and anything else that can carry script is refused.
+const IMAGE_SIGNATURES: Array<{ contentType: string; matches: (data: Buffer) => boolean }> = [
+  { contentType: 'image/png', matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { contentType: 'image/jpeg', matches: data => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  { contentType: 'image/gif', matches: data => ['GIF87a', 'GIF89a'].includes(data.subarray(0, 6).toString('latin1')) },
+  { contentType: 'image/webp', matches: data => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP' },
+];
+
+/**
+ * Identifies a raster image from its bytes, ignoring whatever type the client claimed.
+ * @returns The content type to store it under, or null when it isn't an allowed image.
+ */
+export function detectImageType(data: Buffer): string | null {
+  return IMAGE_SIGNATURES.find(signature => signature.matches(data))?.contentType ?? null;
+}
+
+export function isServableImageType(contentType: string): boolean {
+  return IMAGE_SIGNATURES.some(signature => signature.contentType === contentType);
+}
+
+/**
+ * Stores an image by the SHA-256 of its bytes. Uploading the same file twice
+ * is a no-op that returns the same URL, and the asset keeps its first uploader as owner.
+ */
+export async function storeAsset(data: Buffer, contentType: string, ownerId: number) {
+  const hash = createHash('sha256').update(data).digest('hex');
+  const storage = getAssetStorage();
+
+  if (!(await storage.has(hash))) {
+    await storage.put(hash, data);
+  }
+  await db
+    .insert(assets)
+    .values({ hash, contentType, byteSize: data.length, ownerId })
+    .onConflictDoNothing();
+
+  return { hash, url: assetUrl(hash) };
+}
+
+/**
+ * Reads an asset and its content type. Returns null when either the record or the binary is missing.
+ */
+export async function readAsset(hash: string) {
+  const [record] = await db.select().from(assets).where(eq(assets.hash, hash));
+  if (!record) return null;
+
+  const data = await getAssetStorage().get(hash);
+  if (!data) return null;
+
+  return { data, contentType: record.contentType };
+}
+
+/**
+ * Collects every asset hash still referenced by a room, one of its pieces, the art library or a saved revision.
+ * Revisions count so that restoring an old arrangement never hits a missing image.
+ */
+async function referencedHashes(): Promise<Set<string>> {
+  const referenced = new Set<string>();
+  const add = (url: string | null | undefined) => {
+    const hash = parseAssetUrl(url);
+    if (hash) referenced.add(hash);
+  };
+
+  const roomRows = await db.select({ url: rooms.wallImageUrl }).from(rooms);
+  roomRows.forEach(row => add(row.url));
+
+  const pieceRows = await db.select({ url: artPieces.imageUrl }).from(artPieces);
+  pieceRows.forEach(row => add(row.url));
+
+  const artworkRows = await db.select({ url: artworks.imageUrl }).from(artworks);
+  artworkRows.forEach(row => add(row.url));
+
+  const revisionRows = await db.select({ snapshot: roomRevisions.snapshot }).from(roomRevisions);
+  revisionRows.forEach(({ snapshot }) => {
+    add(snapshot.wallImageUrl);
+    snapshot.artPieces.forEach(piece => add(piece.imageUrl));
+  });
+
+  return referenced;
+}
+
+/**
+ * Deletes every stored asset that no room references anymore, including
+ * orphaned binaries that never got a database record. Assets uploaded within
+ * the grace period are kept, since their room may not be saved yet.
+ * @returns The hashes that were removed.
+ */
+export async function collectGarbage(): Promise<string[]> {
+  const storage = getAssetStorage();
+  const referenced = await referencedHashes();
+
+  const cutoff = Date.now() - GC_GRACE_PERIOD_MS;
+  const records = await db.select({ hash: assets.hash, createdAt: assets.createdAt }).from(assets);
+  records
+    .filter(record => record.createdAt && record.createdAt.getTime() > cutoff)
+    .forEach(record => referenced.add(record.hash));
+
+  const stored = new Set([...records.map(record => record.hash), ...(await storage.list())]);
+  const unreferenced = [...stored].filter(hash => !referenced.has(hash));
+
+  for (const hash of unreferenced) {
+    await storage.delete(hash);
+  }
+  if (unreferenced.length > 0) {
+    await db.delete(assets).where(inArray(assets.hash, unreferenced));
+  }
+  return unreferenced;
+}
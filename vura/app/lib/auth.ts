@@ -0,0 +1,147 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { cookies } from 'next/headers';
+import { eq, isNull } from 'drizzle-orm';
+import { db, runAtomically } from './db';
+import { users, sessions, rooms, artworks, projects, assets, User } from './schema';
+import type { RegisterPayload, SessionUser } from './authContract';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'vura_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const KEY_LENGTH = 64;
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const key = await scryptAsync(password, Buffer.from(salt, 'hex'), KEY_LENGTH);
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toSessionUser(user: User): SessionUser {
+  return { id: user.id, email: user.email, name: user.name };
+}
+
+/**
+ * Creates an account.
+ * @returns null when the email is already registered.
+ */
+export async function registerUser({ email, password, name }: RegisterPayload): Promise<SessionUser | null> {
+  const [user] = await db
+    .insert(users)
+    .values({ email: normalizeEmail(email), name: name || null, passwordHash: await hashPassword(password) })
+    .onConflictDoNothing()
+    .returning();
+
+  return user ? toSessionUser(user) : null;
+}
+
+/**
+ * Gives an account every room, artwork, project and asset saved before accounts existed.
+ * Never done on its own: an operator picks the account with `npm run data:claim`.
+ * @returns How many of each were claimed.
+ */
+export async function claimLegacyData(userId: number) {
+  const claimed = await runAtomically(client => [
+    client.update(rooms).set({ ownerId: userId }).where(isNull(rooms.ownerId)).returning({ id: rooms.id }),
+    client.update(artworks).set({ ownerId: userId }).where(isNull(artworks.ownerId)).returning({ id: artworks.id }),
+    client.update(projects).set({ ownerId: userId }).where(isNull(projects.ownerId)).returning({ id: projects.id }),
+    client.update(assets).set({ ownerId: userId }).where(isNull(assets.ownerId)).returning({ hash: assets.hash }),
+  ]);
+  const [roomCount, artworkCount, projectCount, assetCount] = claimed.map(rows => (rows as unknown[]).length);
+  return { rooms: roomCount, artworks: artworkCount, projects: projectCount, assets: assetCount };
+}
+
+/**
+ * @returns null when the email is unknown or the password is wrong.
+ */
+export async function authenticate(email: string, password: string): Promise<SessionUser | null> {
+  const [user] = await db.select().from(users).where(eq(users.email, normalizeEmail(email)));
+  if (!user || !(await verifyPassword(password, user.passwordHash))) return null;
+  return toSessionUser(user);
+}
+
+export async function findUserByEmail(email: string): Promise<SessionUser | null> {
+  const [user] = await db.select().from(users).where(eq(users.email, normalizeEmail(email)));
+  return user ? toSessionUser(user) : null;
+}
+
+/**
+ * Creates a session and returns its token. Only a hash of the token is stored.
+ */
+export async function createSession(userId: number) {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await db.insert(sessions).values({ id: hashToken(token), userId, expiresAt });
+  return { token, expiresAt };
+}
+
+/**
+ * Resolves a session token to its user. Expired sessions are deleted on sight.
+ */
+export async function getSessionUser(token: string): Promise<SessionUser | null> {
+  const id = hashToken(token);
+  const [row] = await db
+    .select()
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(eq(sessions.id, id));
+
+  if (!row) return null;
+  if (row.sessions.expiresAt <= new Date()) {
+    await db.delete(sessions).where(eq(sessions.id, id));
+    return null;
+  }
+  return toSessionUser(row.users);
+}
+
+export async function deleteSession(token: string) {
+  await db.delete(sessions).where(eq(sessions.id, hashToken(token)));
+}
+
+// --- Cookie helpers for route handlers and server components ---
+
+/**
+ * Signs the user in for this browser by setting the session cookie.
+ */
+export async function startSession(userId: number) {
+  const { token, expiresAt } = await createSession(userId);
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export async function endSession() {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (token) await deleteSession(token);
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+/**
+ * The signed-in user of the current request, or null.
+ */
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? getSessionUser(token) : null;
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+/**
+ * Request and response contracts for accounts, sessions and room collaborators.
+ */
+
+// Editors can change a room, viewers can only open it. Only the owner manages collaborators.
+export const COLLABORATOR_ROLES = ['editor', 'viewer'] as const;
+export const ROOM_ACCESS_ROLES = ['owner', ...COLLABORATOR_ROLES] as const;
+
+export const credentialsSchema = z.object({
+  email: z.string().trim().email().max(320),
+  password: z.string().min(8).max(200),
+});
+
+export const registerSchema = credentialsSchema.extend({
+  name: z.string().trim().max(200).optional(),
+});
+
+export const sessionUserSchema = z.object({
+  id: z.number().int(),
+  email: z.string(),
+  name: z.string().nullable(),
+});
+
+// GET /api/auth/session: user is null when signed out
+export const sessionSchema = z.object({
+  user: sessionUserSchema.nullable(),
+});
+
+export const collaboratorInviteSchema = z.object({
+  email: z.string().trim().email(),
+  role: z.enum(COLLABORATOR_ROLES).default('editor'),
+});
+
+export const collaboratorSchema = z.object({
+  userId: z.number().int(),
+  email: z.string(),
+  name: z.string().nullable(),
+  role: z.enum(COLLABORATOR_ROLES),
+});
+
+export type CollaboratorRole = (typeof COLLABORATOR_ROLES)[number];
+export type RoomAccessRole = (typeof ROOM_ACCESS_ROLES)[number];
+export type Credentials = z.infer<typeof credentialsSchema>;
+export type RegisterPayload = z.infer<typeof registerSchema>;
+export type SessionUser = z.infer<typeof sessionUserSchema>;
+export type CollaboratorInvitePayload = z.input<typeof collaboratorInviteSchema>;
+export type Collaborator = z.infer<typeof collaboratorSchema>;
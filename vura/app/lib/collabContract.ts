@@ -0,0 +1,99 @@
+import { z } from 'zod';
+
+/**
+ * Messages of the live editing channel at /api/room/[id]/live.
+ * The server streams events over SSE, clients POST their operations back.
+ * Placements are in wall inches, like everywhere else.
+ */
+
+export const livePieceSchema = z.object({
+  id: z.number().int(),
+  artworkId: z.number().int().nullable(),
+  url: z.string().min(1),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  groupName: z.string().nullable(),
+  locked: z.boolean(),
+});
+
+// Every operation carries absolute values, so applying one twice changes nothing.
+// An update to a piece that was removed meanwhile is dropped, it never brings the piece back.
+export const pieceOpSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('add'), piece: livePieceSchema }),
+  z.object({ type: z.literal('update'), piece: livePieceSchema }),
+  z.object({ type: z.literal('remove'), id: z.number().int() }),
+]);
+
+export const presenceSchema = z.object({
+  cursor: z.object({ x: z.number(), y: z.number() }).nullable(),
+  // Piece the collaborator is dragging or resizing
+  activePieceId: z.number().int().nullable(),
+});
+
+export const livePostSchema = z.union([
+  z.object({
+    clientId: z.string(),
+    opId: z.string().max(64),
+    ops: z.array(pieceOpSchema).min(1).max(500),
+  }),
+  z.object({
+    clientId: z.string(),
+    presence: presenceSchema,
+  }),
+]);
+
+export const livePeerSchema = z.object({
+  clientId: z.string(),
+  userId: z.number().int(),
+  name: z.string(),
+  color: z.string(),
+  presence: presenceSchema,
+});
+
+// event: snapshot. Sent first on every (re)connect.
+export const liveSnapshotSchema = z.object({
+  clientId: z.string(),
+  version: z.number().int(),
+  pieces: z.array(livePieceSchema),
+  peers: z.array(livePeerSchema),
+});
+
+// event: ops. Broadcast to every client, the sender included, in the order the server applied them.
+export const liveOpsSchema = z.object({
+  version: z.number().int(),
+  clientId: z.string(),
+  opId: z.string(),
+  ops: z.array(pieceOpSchema),
+});
+
+// event: peer (joined or moved) and event: peer-left
+export const livePeerLeftSchema = z.object({ clientId: z.string() });
+
+export type LivePiece = z.infer<typeof livePieceSchema>;
+export type PieceOp = z.infer<typeof pieceOpSchema>;
+export type Presence = z.infer<typeof presenceSchema>;
+export type LivePostPayload = z.infer<typeof livePostSchema>;
+export type LivePeer = z.infer<typeof livePeerSchema>;
+export type LiveSnapshot = z.infer<typeof liveSnapshotSchema>;
+export type LiveOps = z.infer<typeof liveOpsSchema>;
+
+/**
+ * Applies operations to a list of pieces without mutating it.
+ * The server and every client run the same function in the same order, so all copies converge.
+ */
+export function applyPieceOps<T extends LivePiece>(pieces: T[], ops: PieceOp[]): T[] {
+  return ops.reduce<T[]>((current, op) => {
+    switch (op.type) {
+      case 'add':
+        return current.some(p => p.id === op.piece.id)
+          ? current.map(p => (p.id === op.piece.id ? { ...p, ...op.piece } : p))
+          : [...current, op.piece as T];
+      case 'update':
+        return current.map(p => (p.id === op.piece.id ? { ...p, ...op.piece } : p));
+      case 'remove':
+        return current.filter(p => p.id !== op.id);
+    }
+  }, pieces);
+}
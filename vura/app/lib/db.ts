@@ -1,8 +1,92 @@
-import { drizzle } from "drizzle-orm/neon-http";
+import path from "path";
+import { drizzle as drizzleNeon, NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { drizzle as drizzleNodePostgres } from "drizzle-orm/node-postgres";
+import { drizzle as drizzlePglite, PgliteDatabase } from "drizzle-orm/pglite";
+import { migrate as migratePglite } from "drizzle-orm/pglite/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import type { BatchItem } from "drizzle-orm/batch";
 import { neon } from "@neondatabase/serverless";
+import { PGlite } from "@electric-sql/pglite";
+import { Pool } from "pg";
 import { config } from "dotenv";
 
 config({ path: ".env" });
 
-const sql = neon(process.env.DATABASE_URL!);
-export const db = drizzle({ client: sql });
+export type DatabaseDriver = "neon" | "pg" | "pglite";
+
+type Database = PgDatabase<PgQueryResultHKT>;
+
+type Statement = BatchItem<"pg"> & PromiseLike<unknown>;
+
+/**
+ * DATABASE_DRIVER picks the client: "neon" (serverless HTTP), "pg" (node-postgres)
+ * or "pglite" (embedded). When unset, a DATABASE_URL means Neon and no URL means
+ * the embedded database, so a fresh checkout runs fully offline.
+ */
+export function resolveDriver(): DatabaseDriver {
+  const driver = process.env.DATABASE_DRIVER;
+  if (driver === "neon" || driver === "pg" || driver === "pglite") return driver;
+  if (driver) throw new Error(`Unknown DATABASE_DRIVER: ${driver}`);
+  return process.env.DATABASE_URL ? "neon" : "pglite";
+}
+
+function requireDatabaseUrl(driver: DatabaseDriver): string {
+  const url = process.env.DATABASE_URL;
+  if (!url) throw new Error(`DATABASE_URL is required for the ${driver} driver`);
+  return url;
+}
+
+function createDatabase(driver: DatabaseDriver): Database {
+  switch (driver) {
+    case "neon":
+      return drizzleNeon({ client: neon(requireDatabaseUrl(driver)) }) as unknown as Database;
+    case "pg":
+      return drizzleNodePostgres({ client: new Pool({ connectionString: requireDatabaseUrl(driver) }) }) as unknown as Database;
+    case "pglite": {
+      const dataDir = process.env.PGLITE_DATA_DIR || path.join(process.cwd(), ".data", "pglite");
+      return drizzlePglite({ client: new PGlite(dataDir) }) as unknown as Database;
+    }
+  }
+}
+
+// Kept on globalThis so hot reloads and separately bundled routes share one client.
+// PGlite in particular must never open the same data directory twice.
+const globalForDb = globalThis as unknown as {
+  vuraDb?: Database;
+  vuraMigrations?: Promise<void>;
+};
+
+export const db = globalForDb.vuraDb ??= createDatabase(resolveDriver());
+
+/**
+ * Runs a group of writes all-or-nothing. `build` creates them on the client they have to run on.
+ * Neon's HTTP driver can't hold a transaction open between requests and sends them as one batch,
+ * so no statement may depend on the result of another.
+ * @returns The result of each statement, in order.
+ */
+export async function runAtomically(build: (client: Database) => Statement[]): Promise<unknown[]> {
+  if (resolveDriver() === "neon") {
+    const [first, ...rest] = build(db);
+    if (!first) return [];
+    return (db as unknown as NeonHttpDatabase).batch([first, ...rest]);
+  }
+
+  return db.transaction(async tx => {
+    const results: unknown[] = [];
+    for (const statement of build(tx)) results.push(await statement);
+    return results;
+  });
+}
+
+/**
+ * Applies everything in migrations/ to the embedded database. A no-op for
+ * Neon and node-postgres, which are migrated with drizzle-kit.
+ * Called once at server start from instrumentation.ts.
+ */
+export function migrateEmbeddedDatabase(): Promise<void> {
+  if (resolveDriver() !== "pglite") return Promise.resolve();
+
+  return globalForDb.vuraMigrations ??= migratePglite(db as unknown as PgliteDatabase, {
+    migrationsFolder: path.join(process.cwd(), "migrations"),
+  });
+}
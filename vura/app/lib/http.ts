@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { FieldError } from './roomContract';
+import type { RoomAccessRole, SessionUser } from './authContract';
+import { getCurrentUser } from './auth';
+import { allows, AccessLevel, getRoomRole } from './access';
+
+/**
+ * Flattens zod issues into a list of dotted field paths and messages.
+ */
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map(issue => ({
+    path: issue.path.map(String).join('.'),
+    message: issue.message,
+  }));
+}
+
+export function validationError(error: z.ZodError) {
+  return NextResponse.json(
+    { error: 'Invalid request', fieldErrors: toFieldErrors(error) },
+    { status: 400 }
+  );
+}
+
+/**
+ * Reads a JSON body and validates it against a schema.
+ * On failure `error` holds a ready-to-return 400 response.
+ */
+export async function parseRequestBody<T>(
+  request: Request,
+  schema: z.ZodType<T>
+): Promise<{ data: T; error?: undefined } | { data?: undefined; error: NextResponse }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { error: NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 }) };
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) return { error: validationError(parsed.error) };
+  return { data: parsed.data };
+}
+
+/**
+ * Resolves the signed-in user. On failure `error` holds a ready-to-return 401 response.
+ */
+export async function requireUser(): Promise<{ user: SessionUser; error?: undefined } | { user?: undefined; error: NextResponse }> {
+  const user = await getCurrentUser();
+  if (!user) return { error: NextResponse.json({ error: 'Sign in required' }, { status: 401 }) };
+  return { user };
+}
+
+/**
+ * Checks that the signed-in user may access a room at the given level.
+ * Rooms the user can't see at all answer 404, so their existence isn't leaked.
+ */
+export async function requireRoomAccess(
+  roomId: number,
+  level: AccessLevel
+): Promise<{ user: SessionUser; role: RoomAccessRole; error?: undefined } | { user?: undefined; role?: undefined; error: NextResponse }> {
+  const auth = await requireUser();
+  if (auth.error) return auth;
+
+  const role = await getRoomRole(auth.user.id, roomId);
+  if (!role) return { error: NextResponse.json({ error: 'Room not found' }, { status: 404 }) };
+  if (!allows(role, level)) {
+    return { error: NextResponse.json({ error: 'You do not have permission to do that' }, { status: 403 }) };
+  }
+  return { user: auth.user, role };
+}
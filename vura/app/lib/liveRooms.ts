@@ -0,0 +1,168 @@
+import { randomUUID } from 'crypto';
+import { getRoomDocument } from './rooms';
+import { applyPieceOps, LivePeer, LivePiece, PieceOp, Presence } from './collabContract';
+import type { SessionUser } from './authContract';
+
+/**
+ * In-memory hub for live editing. Each open room keeps the authoritative list of
+ * pieces and applies operations one at a time in arrival order, so concurrent
+ * edits of the same piece resolve to whichever reached the server last.
+ * The hub lives in this server process and is dropped when the last editor leaves,
+ * rooms are still persisted with a regular save. Editors on different server instances
+ * don't see each other, so live editing needs a single long-running server.
+ */
+
+/**
+ * Thrown when operations would move, resize or remove a locked piece without unlocking it.
+ */
+export class LockedPieceError extends Error {
+  constructor(readonly pieceIds: number[]) {
+    super(`Piece ${pieceIds.join(', ')} is locked`);
+    this.name = 'LockedPieceError';
+  }
+}
+
+type Send = (event: string, data: unknown) => void;
+
+type LiveClient = LivePeer & { send: Send };
+
+type LiveRoom = {
+  version: number;
+  pieces: LivePiece[];
+  clients: Map<string, LiveClient>;
+};
+
+const PEER_COLORS = ['#f472b6', '#34d399', '#fbbf24', '#60a5fa', '#a78bfa', '#f87171'];
+
+// Kept on globalThis so every route bundle and hot reload shares the same hubs
+const globalForLive = globalThis as unknown as { vuraLiveRooms?: Map<number, Promise<LiveRoom>> };
+const liveRooms = globalForLive.vuraLiveRooms ??= new Map();
+
+async function openRoom(roomId: number): Promise<LiveRoom> {
+  const room = await getRoomDocument(roomId);
+  return {
+    version: 0,
+    pieces: (room?.artPieces ?? []).map(p => ({
+      id: p.id,
+      artworkId: p.artworkId,
+      url: p.imageUrl,
+      x: p.xInches,
+      y: p.yInches,
+      width: p.realWidthInches,
+      height: p.realHeightInches,
+      groupName: p.groupName,
+      locked: p.locked,
+    })),
+    clients: new Map(),
+  };
+}
+
+async function getLiveRoom(roomId: number): Promise<LiveRoom> {
+  let room = liveRooms.get(roomId);
+  if (!room) {
+    // Stored as a promise so clients joining while the room loads share one hub
+    room = openRoom(roomId);
+    liveRooms.set(roomId, room);
+    room.catch(() => liveRooms.delete(roomId));
+  }
+  return room;
+}
+
+function toPeer({ clientId, userId, name, color, presence }: LiveClient): LivePeer {
+  return { clientId, userId, name, color, presence };
+}
+
+function broadcast(room: LiveRoom, event: string, data: unknown, except?: string) {
+  room.clients.forEach(client => {
+    if (client.clientId !== except) client.send(event, data);
+  });
+}
+
+/**
+ * Adds a client to a room and sends it the current pieces and peers.
+ * @returns The client id the connection must quote when posting.
+ */
+export async function joinLiveRoom(roomId: number, user: SessionUser, send: Send): Promise<string> {
+  const room = await getLiveRoom(roomId);
+  const clientId = randomUUID();
+  const client: LiveClient = {
+    clientId,
+    userId: user.id,
+    name: user.name || user.email,
+    color: PEER_COLORS[room.clients.size % PEER_COLORS.length],
+    presence: { cursor: null, activePieceId: null },
+    send,
+  };
+
+  send('snapshot', { clientId, version: room.version, pieces: room.pieces, peers: [...room.clients.values()].map(toPeer) });
+  room.clients.set(clientId, client);
+  broadcast(room, 'peer', toPeer(client), clientId);
+  return clientId;
+}
+
+export async function leaveLiveRoom(roomId: number, clientId: string) {
+  const room = await liveRooms.get(roomId);
+  if (!room || !room.clients.delete(clientId)) return;
+
+  if (room.clients.size === 0) {
+    liveRooms.delete(roomId);
+  } else {
+    broadcast(room, 'peer-left', { clientId });
+  }
+}
+
+// A client id is only valid for the user that opened the connection
+async function findClient(roomId: number, clientId: string, userId: number) {
+  const room = await liveRooms.get(roomId);
+  const client = room?.clients.get(clientId);
+  return room && client && client.userId === userId ? { room, client } : null;
+}
+
+// Pieces the operations would move, resize or remove while they are locked. Each operation is checked
+// against the pieces as the ones before it left them, so a batch can unlock a piece and then move it.
+function lockedTargets(pieces: LivePiece[], ops: PieceOp[]): number[] {
+  const blocked = new Set<number>();
+  ops.reduce((current, op) => {
+    const id = op.type === 'remove' ? op.id : op.piece.id;
+    const target = current.find(p => p.id === id);
+    if (target?.locked) {
+      const changesPlacement = op.type === 'remove' || (op.piece.locked && (
+        op.piece.x !== target.x || op.piece.y !== target.y || op.piece.width !== target.width || op.piece.height !== target.height
+      ));
+      if (changesPlacement) blocked.add(id);
+    }
+    return applyPieceOps(current, [op]);
+  }, pieces);
+  return [...blocked];
+}
+
+/**
+ * Applies piece operations and broadcasts them to everyone, the sender included.
+ * @returns false when the client is not connected to the room.
+ * @throws LockedPieceError, and then applies none of them.
+ */
+export async function submitLiveOps(roomId: number, clientId: string, userId: number, opId: string, ops: PieceOp[]): Promise<boolean> {
+  const found = await findClient(roomId, clientId, userId);
+  if (!found) return false;
+
+  const { room } = found;
+  const locked = lockedTargets(room.pieces, ops);
+  if (locked.length > 0) throw new LockedPieceError(locked);
+
+  room.pieces = applyPieceOps(room.pieces, ops);
+  room.version += 1;
+  broadcast(room, 'ops', { version: room.version, clientId, opId, ops });
+  return true;
+}
+
+/**
+ * @returns false when the client is not connected to the room.
+ */
+export async function updateLivePresence(roomId: number, clientId: string, userId: number, presence: Presence): Promise<boolean> {
+  const found = await findClient(roomId, clientId, userId);
+  if (!found) return false;
+
+  found.client.presence = presence;
+  broadcast(found.room, 'peer', toPeer(found.client), clientId);
+  return true;
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+/**
+ * Request and response contracts for multi-wall projects (/api/projects).
+ * Each wall of a project is a room, edited through the room API.
+ */
+
+const projectName = z.string().trim().min(1).max(200);
+
+// POST /api/projects: existing standalone rooms can become the first walls
+export const projectCreateSchema = z.object({
+  name: projectName,
+  roomIds: z.array(z.number().int().positive()).optional(),
+});
+
+export const projectPatchSchema = z.object({
+  name: projectName,
+});
+
+// POST /api/projects/[id]/walls: adopts roomId when given, otherwise creates an empty wall
+export const wallAddSchema = z.object({
+  roomId: z.number().int().positive().optional(),
+  name: z.string().trim().min(1).max(200).optional(),
+});
+
+export const projectSummarySchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  updatedAt: z.string().nullable(),
+  wallCount: z.number().int(),
+});
+
+export const projectWallSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  wallImageUrl: z.string().nullable(),
+  position: z.number().int(),
+  pieceCount: z.number().int(),
+  artworkIds: z.array(z.number().int()),
+});
+
+export const projectDocumentSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  createdAt: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+  walls: z.array(projectWallSchema),
+});
+
+export const projectSaveResultSchema = z.object({
+  success: z.literal(true),
+  projectId: z.number().int(),
+});
+
+export type ProjectCreatePayload = z.infer<typeof projectCreateSchema>;
+export type WallAddPayload = z.infer<typeof wallAddSchema>;
+export type ProjectSummary = z.infer<typeof projectSummarySchema>;
+export type ProjectWall = z.infer<typeof projectWallSchema>;
+export type ProjectDocument = z.infer<typeof projectDocumentSchema>;
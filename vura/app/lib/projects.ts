@@ -0,0 +1,137 @@
+import { and, asc, count, desc, eq, max, sql } from 'drizzle-orm';
+import { db } from './db';
+import { projects, rooms, artPieces } from './schema';
+import { assertArtworksAvailable, createRoom, EMPTY_ROOM, getRoomDocument } from './rooms';
+
+// Projects are private to their owner, collaborators are invited per wall
+const owned = (ownerId: number, projectId: number) => and(eq(projects.id, projectId), eq(projects.ownerId, ownerId));
+
+/**
+ * Lists a user's projects with their wall counts, most recently changed first.
+ */
+export async function listProjects(ownerId: number) {
+  return db
+    .select({
+      id: projects.id,
+      name: projects.name,
+      updatedAt: projects.updatedAt,
+      wallCount: count(rooms.id),
+    })
+    .from(projects)
+    .leftJoin(rooms, eq(rooms.projectId, projects.id))
+    .where(eq(projects.ownerId, ownerId))
+    .groupBy(projects.id)
+    .orderBy(desc(projects.updatedAt), desc(projects.id));
+}
+
+/**
+ * Loads a project with a summary of each wall, in wall order.
+ * Returns null when no project with the given id exists.
+ */
+export async function getProjectDocument(ownerId: number, projectId: number) {
+  const [project] = await db.select().from(projects).where(owned(ownerId, projectId));
+  if (!project) return null;
+
+  const walls = await db
+    .select({
+      id: rooms.id,
+      name: rooms.name,
+      wallImageUrl: rooms.wallImageUrl,
+      position: rooms.position,
+      pieceCount: count(artPieces.id),
+      // Library artworks hanging on the wall, so the editor can keep each one on a single wall
+      artworkIds: sql<number[]>`coalesce(array_agg(distinct ${artPieces.artworkId}) filter (where ${artPieces.artworkId} is not null), '{}')`,
+    })
+    .from(rooms)
+    .leftJoin(artPieces, eq(artPieces.roomId, rooms.id))
+    .where(eq(rooms.projectId, projectId))
+    .groupBy(rooms.id)
+    .orderBy(asc(rooms.position), asc(rooms.id));
+
+  return { id: project.id, name: project.name, createdAt: project.createdAt, updatedAt: project.updatedAt, walls };
+}
+
+/**
+ * Creates a project, optionally adopting existing rooms of the same owner as its first walls.
+ * @returns The id of the new project.
+ * @throws PlacementConflictError when the rooms share an artwork.
+ */
+export async function createProject(ownerId: number, name: string, roomIds: number[] = []): Promise<number> {
+  const [project] = await db.insert(projects).values({ name, ownerId }).returning();
+  for (const roomId of roomIds) {
+    await addWall(ownerId, project.id, roomId);
+  }
+  return project.id;
+}
+
+/**
+ * @returns false when the project does not exist.
+ */
+export async function renameProject(ownerId: number, projectId: number, name: string): Promise<boolean> {
+  const updated = await db
+    .update(projects)
+    .set({ name, updatedAt: new Date() })
+    .where(owned(ownerId, projectId))
+    .returning({ id: projects.id });
+
+  return updated.length > 0;
+}
+
+/**
+ * Deletes a project. Its walls are kept as standalone rooms.
+ * @returns false when the project does not exist.
+ */
+export async function deleteProject(ownerId: number, projectId: number): Promise<boolean> {
+  const [project] = await db.select({ id: projects.id }).from(projects).where(owned(ownerId, projectId));
+  if (!project) return false;
+
+  await db.update(rooms).set({ projectId: null, position: 0 }).where(eq(rooms.projectId, projectId));
+  await db.delete(projects).where(eq(projects.id, projectId));
+  return true;
+}
+
+/**
+ * Adds a wall at the end of a project: an existing room of the same owner when roomId is given, otherwise a new empty one.
+ * @returns The id of the wall, or null when the project or room does not exist.
+ * @throws PlacementConflictError when the room shows an artwork already hanging in the project.
+ */
+export async function addWall(ownerId: number, projectId: number, roomId?: number, name = 'Untitled Wall'): Promise<number | null> {
+  const [project] = await db.select({ id: projects.id }).from(projects).where(owned(ownerId, projectId));
+  if (!project) return null;
+
+  const [last] = await db.select({ position: max(rooms.position) }).from(rooms).where(eq(rooms.projectId, projectId));
+  const position = last.position === null ? 0 : last.position + 1;
+
+  let wallId: number;
+  if (roomId === undefined) {
+    wallId = await createRoom(ownerId, { ...EMPTY_ROOM, name }, { projectId, position });
+  } else {
+    const room = await getRoomDocument(roomId);
+    if (!room || room.ownerId !== ownerId) return null;
+    if (room.projectId === projectId) return roomId;
+
+    await assertArtworksAvailable(projectId, roomId, room.artPieces);
+    await db.update(rooms).set({ projectId, position }).where(eq(rooms.id, roomId));
+    wallId = roomId;
+  }
+
+  await db.update(projects).set({ updatedAt: new Date() }).where(eq(projects.id, projectId));
+  return wallId;
+}
+
+/**
+ * Takes a wall out of a project, leaving it as a standalone room.
+ * @returns false when the room is not a wall of the project.
+ */
+export async function removeWall(ownerId: number, projectId: number, roomId: number): Promise<boolean> {
+  const [project] = await db.select({ id: projects.id }).from(projects).where(owned(ownerId, projectId));
+  if (!project) return false;
+
+  const updated = await db
+    .update(rooms)
+    .set({ projectId: null, position: 0 })
+    .where(and(eq(rooms.id, roomId), eq(rooms.projectId, projectId)))
+    .returning({ id: rooms.id });
+
+  return updated.length > 0;
+}
@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import { ROOM_ACCESS_ROLES } from './authContract';
+
+/**
+ * Request and response contracts for the room API.
+ * Shared by the route handlers and the client helpers in utils/roomApi,
+ * so both sides agree on what a valid room looks like.
+ */
+
+export const pointSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+export const wallCornersSchema = z.object({
+  tl: pointSchema,
+  tr: pointSchema,
+  br: pointSchema,
+  bl: pointSchema,
+});
+
+// One placed piece, in wall-space inches (x from the left wall edge, y from the floor to the bottom edge)
+export const artPiecePayloadSchema = z.object({
+  url: z.string().min(1),
+  // The library artwork this piece shows, if any
+  artworkId: z.number().int().positive().nullable().optional(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  groupName: z.string().trim().min(1).max(100).nullable().optional(),
+  locked: z.boolean().optional(),
+});
+
+const roomFields = {
+  name: z.string().trim().min(1).max(200),
+  wallImageUrl: z.string().min(1).nullable(),
+  ratio: z.number().nonnegative().nullable(),
+  floorY: z.number().nonnegative().nullable(),
+  wallCorners: wallCornersSchema.nullable(),
+  calibrationErrorInches: z.number().nonnegative().nullable(),
+  wallAspect: z.number().positive().nullable(),
+  wallImageWidth: z.number().int().positive().nullable(),
+  wallImageHeight: z.number().int().positive().nullable(),
+  artPieces: z.array(artPiecePayloadSchema),
+};
+
+// POST /api/room: everything is optional, missing fields get defaults
+export const roomCreateSchema = z.object(roomFields).partial();
+
+// PUT /api/room/[id]: a full replacement, so the name and the piece list are required
+export const roomUpdateSchema = roomCreateSchema.extend({
+  name: roomFields.name,
+  artPieces: roomFields.artPieces,
+});
+
+// PATCH /api/room/[id]: only the fields present change
+export const roomPatchSchema = roomCreateSchema;
+
+export const artPieceRecordSchema = z.object({
+  id: z.number().int(),
+  roomId: z.number().int().nullable(),
+  artworkId: z.number().int().nullable(),
+  imageUrl: z.string(),
+  xInches: z.number(),
+  yInches: z.number(),
+  realWidthInches: z.number(),
+  realHeightInches: z.number(),
+  groupName: z.string().nullable(),
+  locked: z.boolean(),
+  // Editor canvas pixels of a piece saved before placements were in inches
+  legacyRect: z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() }).nullable(),
+});
+
+// GET /api/room/[id]. Timestamps arrive as ISO strings.
+export const roomDocumentSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  ownerId: z.number().int().nullable(),
+  // What the signed-in user may do with the room
+  accessRole: z.enum(ROOM_ACCESS_ROLES),
+  projectId: z.number().int().nullable(),
+  position: z.number().int(),
+  wallImageUrl: z.string().nullable(),
+  referenceRatioPpi: z.number().nullable(),
+  floorY: z.number().nullable(),
+  wallCorners: wallCornersSchema.nullable(),
+  calibrationErrorInches: z.number().nullable(),
+  wallAspect: z.number().nullable(),
+  wallImageWidth: z.number().int().nullable(),
+  wallImageHeight: z.number().int().nullable(),
+  createdAt: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+  artPieces: z.array(artPieceRecordSchema),
+});
+
+export const roomSaveResultSchema = z.object({
+  success: z.literal(true),
+  roomId: z.number().int(),
+});
+
+export const ROOM_SORTS = ['updated', 'created', 'name'] as const;
+
+// GET /api/room query string. The cursor is opaque, taken from the previous page's nextCursor.
+export const roomListQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  sort: z.enum(ROOM_SORTS).default('updated'),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const roomSummarySchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  wallImageUrl: z.string().nullable(),
+  pieceCount: z.number().int(),
+  updatedAt: z.string().nullable(),
+});
+
+export const roomListSchema = z.object({
+  items: z.array(roomSummarySchema),
+  nextCursor: z.string().nullable(),
+});
+
+export const revisionSummarySchema = z.object({
+  id: z.number().int(),
+  createdAt: z.string().nullable(),
+  name: z.string(),
+  pieceCount: z.number().int(),
+});
+
+// POST /api/room/[id]/share. Links without an expiry stay valid until revoked.
+export const shareCreateSchema = z.object({
+  expiresInDays: z.number().int().positive().max(365).nullable().optional(),
+});
+
+export const shareLinkSchema = z.object({
+  token: z.string(),
+  path: z.string(),
+  expiresAt: z.string().nullable(),
+  createdAt: z.string().nullable(),
+  active: z.boolean(),
+});
+
+export const fieldErrorSchema = z.object({
+  path: z.string(),
+  message: z.string(),
+});
+
+// Body of every 4xx/5xx response from the room API
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  fieldErrors: z.array(fieldErrorSchema).optional(),
+});
+
+export type RoomCreatePayload = z.infer<typeof roomCreateSchema>;
+export type RoomUpdatePayload = z.infer<typeof roomUpdateSchema>;
+export type RoomPatchPayload = z.infer<typeof roomPatchSchema>;
+export type RoomDocumentResponse = z.infer<typeof roomDocumentSchema>;
+export type RoomSort = (typeof ROOM_SORTS)[number];
+export type RoomListQuery = z.infer<typeof roomListQuerySchema>;
+export type RoomSummary = z.infer<typeof roomSummarySchema>;
+export type RevisionSummary = z.infer<typeof revisionSummarySchema>;
+export type ShareCreatePayload = z.infer<typeof shareCreateSchema>;
+export type ShareLink = z.infer<typeof shareLinkSchema>;
+export type FieldError = z.infer<typeof fieldErrorSchema>;
@@ -0,0 +1,434 @@
+import { and, asc, count, desc, eq, ilike, inArray, ne, or, sql, SQL } from 'drizzle-orm';
+import { db, runAtomically } from './db';
+import { rooms, artPieces, artworks, roomRevisions, roomCollaborators, shareTokens, RoomDocument, RoomSnapshot } from './schema';
+import type { RoomCreatePayload, RoomSort } from './roomContract';
+
+/**
+ * Thrown when a save would hang an artwork that already hangs on another wall of the same project.
+ */
+export class PlacementConflictError extends Error {
+  constructor(readonly conflicts: { artworkId: number; wallName: string }[]) {
+    super(`Artwork already placed on ${conflicts.map(c => `"${c.wallName}"`).join(', ')}`);
+    this.name = 'PlacementConflictError';
+  }
+}
+
+/**
+ * Thrown when a save would link a piece to an artwork in someone else's library.
+ */
+export class ArtworkAccessError extends Error {
+  constructor(readonly artworkIds: number[]) {
+    super(`Artwork ${artworkIds.join(', ')} is not in your library`);
+    this.name = 'ArtworkAccessError';
+  }
+}
+
+// Pieces in revisions saved before placements moved to inches, still in editor pixels
+type LegacySnapshotPiece = { imageUrl: string; x: number; y: number; width: number; height: number };
+
+/**
+ * Loads a single room together with all of its art pieces.
+ * Returns null when no room with the given id exists.
+ */
+export async function getRoomDocument(roomId: number): Promise<RoomDocument | null> {
+  const rows = await db
+    .select()
+    .from(rooms)
+    .leftJoin(artPieces, eq(artPieces.roomId, rooms.id))
+    .where(eq(rooms.id, roomId))
+    .orderBy(asc(artPieces.id));
+
+  if (rows.length === 0) return null;
+
+  return {
+    ...rows[0].rooms,
+    // A room without pieces still yields one row, with a null art_pieces side
+    artPieces: rows.flatMap(row => (row.art_pieces ? [row.art_pieces] : [])),
+  };
+}
+
+// Position after the last row of a page: the sort column as text, and the room id to break ties
+type RoomCursor = [string, number];
+
+const SORT_COLUMNS = {
+  updated: rooms.updatedAt,
+  created: rooms.createdAt,
+  name: rooms.name,
+};
+
+export function encodeRoomCursor(cursor: RoomCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor from the query string. Returns null when it was tampered with or truncated.
+ */
+export function decodeRoomCursor(value: string): RoomCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString());
+    if (Array.isArray(cursor) && typeof cursor[0] === 'string' && Number.isInteger(cursor[1])) {
+      return [cursor[0], cursor[1]];
+    }
+  } catch {
+    // Falls through to null
+  }
+  return null;
+}
+
+/**
+ * Lists the rooms a user owns or collaborates on, one page at a time, optionally filtered by a name search.
+ * Pages are keyed on the sort column and id, so rooms saved while paging don't shift later pages.
+ */
+export async function listRooms(userId: number, options: { q?: string; sort: RoomSort; cursor: RoomCursor | null; limit: number }) {
+  const column = SORT_COLUMNS[options.sort];
+  const ascending = options.sort === 'name';
+
+  const shared = db.select({ roomId: roomCollaborators.roomId }).from(roomCollaborators).where(eq(roomCollaborators.userId, userId));
+  const conditions: SQL[] = [or(eq(rooms.ownerId, userId), inArray(rooms.id, shared))!];
+  if (options.q) {
+    conditions.push(ilike(rooms.name, `%${options.q.replace(/[\\%_]/g, '\\$&')}%`));
+  }
+  if (options.cursor) {
+    const [value, id] = options.cursor;
+    conditions.push(ascending
+      ? sql`(${column}, ${rooms.id}) > (${value}, ${id})`
+      : sql`(${column}, ${rooms.id}) < (${value}, ${id})`);
+  }
+
+  const rows = await db
+    .select({
+      id: rooms.id,
+      name: rooms.name,
+      wallImageUrl: rooms.wallImageUrl,
+      updatedAt: rooms.updatedAt,
+      pieceCount: count(artPieces.id),
+      // Timestamps keep their full precision as text, a JS Date would round them to milliseconds
+      sortValue: sql<string>`${column}::text`,
+    })
+    .from(rooms)
+    .leftJoin(artPieces, eq(artPieces.roomId, rooms.id))
+    .where(and(...conditions))
+    .groupBy(rooms.id)
+    .orderBy(ascending ? asc(column) : desc(column), ascending ? asc(rooms.id) : desc(rooms.id))
+    .limit(options.limit + 1);
+
+  const page = rows.slice(0, options.limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map(row => ({
+      id: row.id,
+      name: row.name,
+      wallImageUrl: row.wallImageUrl,
+      pieceCount: row.pieceCount,
+      updatedAt: row.updatedAt,
+    })),
+    nextCursor: rows.length > options.limit ? encodeRoomCursor([last.sortValue, last.id]) : null,
+  };
+}
+
+/**
+ * Strips database ids from a loaded room so it can be written back or stored as a revision.
+ */
+export function toSnapshot(room: RoomDocument): RoomSnapshot {
+  return {
+    name: room.name,
+    wallImageUrl: room.wallImageUrl,
+    referenceRatioPpi: room.referenceRatioPpi,
+    floorY: room.floorY,
+    wallCorners: room.wallCorners,
+    calibrationErrorInches: room.calibrationErrorInches,
+    wallAspect: room.wallAspect,
+    wallImageWidth: room.wallImageWidth,
+    wallImageHeight: room.wallImageHeight,
+    artPieces: room.artPieces.map(piece => ({
+      artworkId: piece.artworkId,
+      imageUrl: piece.imageUrl,
+      xInches: piece.xInches,
+      yInches: piece.yInches,
+      realWidthInches: piece.realWidthInches,
+      realHeightInches: piece.realHeightInches,
+      groupName: piece.groupName,
+      locked: piece.locked,
+      legacyRect: piece.legacyRect,
+    })),
+  };
+}
+
+/**
+ * Applies a client payload on top of a base snapshot. Fields missing from the
+ * payload keep their base value, which gives PATCH its partial-update semantics.
+ */
+export function applyPayload(base: RoomSnapshot, payload: RoomCreatePayload): RoomSnapshot {
+  return {
+    name: payload.name || base.name,
+    wallImageUrl: payload.wallImageUrl !== undefined ? payload.wallImageUrl : base.wallImageUrl,
+    referenceRatioPpi: payload.ratio !== undefined ? payload.ratio : base.referenceRatioPpi,
+    floorY: payload.floorY !== undefined ? payload.floorY : base.floorY,
+    wallCorners: payload.wallCorners !== undefined ? payload.wallCorners : base.wallCorners,
+    calibrationErrorInches: payload.calibrationErrorInches !== undefined ? payload.calibrationErrorInches : base.calibrationErrorInches,
+    wallAspect: payload.wallAspect !== undefined ? payload.wallAspect : base.wallAspect,
+    wallImageWidth: payload.wallImageWidth !== undefined ? payload.wallImageWidth : base.wallImageWidth,
+    wallImageHeight: payload.wallImageHeight !== undefined ? payload.wallImageHeight : base.wallImageHeight,
+    artPieces: payload.artPieces
+      ? payload.artPieces.map(art => ({
+          artworkId: art.artworkId ?? null,
+          imageUrl: art.url,
+          xInches: art.x,
+          yInches: art.y,
+          realWidthInches: art.width,
+          realHeightInches: art.height,
+          groupName: art.groupName ?? null,
+          locked: art.locked ?? false,
+        }))
+      : base.artPieces,
+  };
+}
+
+export const EMPTY_ROOM: RoomSnapshot = {
+  name: 'Untitled Room',
+  wallImageUrl: null,
+  referenceRatioPpi: null,
+  floorY: null,
+  wallCorners: null,
+  calibrationErrorInches: null,
+  wallAspect: null,
+  wallImageWidth: null,
+  wallImageHeight: null,
+  artPieces: [],
+};
+
+/**
+ * Checks that none of the pieces show an artwork hanging on another wall of the project,
+ * since a physical artwork can only be in one place at a time.
+ * @param roomId The wall being saved, excluded from the check. Null for a new wall.
+ * @throws PlacementConflictError
+ */
+export async function assertArtworksAvailable(projectId: number, roomId: number | null, pieces: RoomSnapshot['artPieces']) {
+  const artworkIds = [...new Set(pieces.flatMap(piece => (piece.artworkId ? [piece.artworkId] : [])))];
+  if (artworkIds.length === 0) return;
+
+  const conflicts = await db
+    .selectDistinct({ artworkId: artPieces.artworkId, wallName: rooms.name })
+    .from(artPieces)
+    .innerJoin(rooms, eq(artPieces.roomId, rooms.id))
+    .where(and(
+      eq(rooms.projectId, projectId),
+      roomId === null ? undefined : ne(rooms.id, roomId),
+      inArray(artPieces.artworkId, artworkIds)
+    ));
+
+  if (conflicts.length > 0) {
+    throw new PlacementConflictError(conflicts.map(c => ({ artworkId: c.artworkId!, wallName: c.wallName })));
+  }
+}
+
+/**
+ * Inserts a new room with its pieces and records the first revision.
+ * @param project Adds the room as a wall of a project.
+ * @returns The id of the new room.
+ * @throws PlacementConflictError
+ * @throws ArtworkAccessError
+ */
+export async function createRoom(ownerId: number, snapshot: RoomSnapshot, project?: { projectId: number; position: number }): Promise<number> {
+  const { artPieces: pieces, ...room } = snapshot;
+  if (project) await assertArtworksAvailable(project.projectId, null, pieces);
+  const linked = await linkArtworks(ownerId, null, pieces);
+
+  // Taken up front, so the room, its pieces and the revision can be written together
+  const roomId = await reserveRoomId();
+  await runAtomically(client => [
+    client.insert(rooms).values({ ...room, ...project, id: roomId, ownerId }),
+    ...insertPieces(client, roomId, linked),
+    recordRevision(client, roomId, { ...snapshot, artPieces: linked }),
+  ]);
+  return roomId;
+}
+
+/**
+ * Overwrites an existing room in place: room fields are updated and the art
+ * pieces are replaced wholesale. Each call records a new revision.
+ * @param actorId The user saving, whose library the pieces may link to.
+ * @returns false when the room does not exist.
+ * @throws PlacementConflictError
+ * @throws ArtworkAccessError
+ */
+export async function updateRoom(roomId: number, snapshot: RoomSnapshot, actorId: number): Promise<boolean> {
+  const { artPieces: pieces, ...room } = snapshot;
+
+  const [existing] = await db.select({ projectId: rooms.projectId }).from(rooms).where(eq(rooms.id, roomId));
+  if (!existing) return false;
+  if (existing.projectId !== null) await assertArtworksAvailable(existing.projectId, roomId, pieces);
+  const linked = await linkArtworks(actorId, roomId, pieces);
+
+  const [updated] = await runAtomically(client => [
+    client.update(rooms).set({ ...room, updatedAt: new Date() }).where(eq(rooms.id, roomId)).returning({ id: rooms.id }),
+    client.delete(artPieces).where(eq(artPieces.roomId, roomId)),
+    ...insertPieces(client, roomId, linked),
+    recordRevision(client, roomId, { ...snapshot, artPieces: linked }),
+  ]);
+  return (updated as { id: number }[]).length > 0;
+}
+
+/**
+ * Deletes a room with its pieces, revisions, collaborators and share links. Images are left
+ * to asset garbage collection, since other rooms may still use them.
+ * @returns false when the room does not exist.
+ */
+export async function deleteRoom(roomId: number): Promise<boolean> {
+  const results = await runAtomically(client => [
+    client.delete(shareTokens).where(eq(shareTokens.roomId, roomId)),
+    client.delete(roomCollaborators).where(eq(roomCollaborators.roomId, roomId)),
+    client.delete(roomRevisions).where(eq(roomRevisions.roomId, roomId)),
+    client.delete(artPieces).where(eq(artPieces.roomId, roomId)),
+    client.delete(rooms).where(eq(rooms.id, roomId)).returning({ id: rooms.id }),
+  ]);
+  return (results[results.length - 1] as { id: number }[]).length > 0;
+}
+
+/**
+ * Copies a room and its pieces into a new standalone room owned by ownerId.
+ * The copy starts with a fresh revision history and no collaborators, and only
+ * keeps its pieces linked to artworks in the new owner's library.
+ * @returns The id of the copy, or null when the room does not exist.
+ */
+export async function duplicateRoom(roomId: number, ownerId: number): Promise<number | null> {
+  const room = await getRoomDocument(roomId);
+  if (!room) return null;
+  const snapshot = toSnapshot(room);
+  const { linkable } = await classifyArtworks(ownerId, null, snapshot.artPieces);
+  return createRoom(ownerId, { ...snapshot, name: `${room.name} (copy)`, artPieces: unlink(snapshot.artPieces, linkable) });
+}
+
+/**
+ * Lists the saved revisions of a room, newest first, without their full snapshots.
+ */
+export async function listRevisions(roomId: number) {
+  const result = await db
+    .select()
+    .from(roomRevisions)
+    .where(eq(roomRevisions.roomId, roomId))
+    .orderBy(desc(roomRevisions.createdAt), desc(roomRevisions.id));
+
+  return result.map(revision => ({
+    id: revision.id,
+    createdAt: revision.createdAt,
+    name: revision.snapshot.name,
+    pieceCount: revision.snapshot.artPieces.length,
+  }));
+}
+
+/**
+ * Rolls a room back to one of its revisions. The restore is itself saved as
+ * a new revision, so it can be undone by restoring the previous one.
+ * @returns false when the revision does not belong to the room.
+ */
+export async function restoreRevision(roomId: number, revisionId: number, actorId: number): Promise<boolean> {
+  const [revision] = await db
+    .select()
+    .from(roomRevisions)
+    .where(and(eq(roomRevisions.id, revisionId), eq(roomRevisions.roomId, roomId)));
+
+  if (!revision) return false;
+  // Artworks the restoring user may no longer link come back as plain pieces
+  const snapshot = upgradeSnapshot(revision.snapshot);
+  const { linkable } = await classifyArtworks(actorId, roomId, snapshot.artPieces);
+  return updateRoom(roomId, { ...snapshot, artPieces: unlink(snapshot.artPieces, linkable) }, actorId);
+}
+
+/**
+ * Estimates wall-space inches for pixel placements in old revisions, with the same fallbacks as the
+ * database backfill. Like there, the pixels are kept as the legacy rect for the editor to convert.
+ * Pixels ran from the photo's left edge, x runs from the wall corner when there is one.
+ */
+function upgradeSnapshot(snapshot: RoomSnapshot): RoomSnapshot {
+  const ppi = snapshot.referenceRatioPpi || (snapshot.wallImageHeight ? snapshot.wallImageHeight / 96 : 10);
+  const floor = snapshot.floorY || snapshot.wallImageHeight || 800;
+  const left = snapshot.wallCorners ? snapshot.wallCorners.tl.x : 0;
+
+  // Fields added after the revision was taken are reset, rather than left out and kept as they are on the room
+  return {
+    ...snapshot,
+    floorY: snapshot.floorY ?? null,
+    wallCorners: snapshot.wallCorners ?? null,
+    calibrationErrorInches: snapshot.calibrationErrorInches ?? null,
+    wallAspect: snapshot.wallAspect ?? null,
+    wallImageWidth: snapshot.wallImageWidth ?? null,
+    wallImageHeight: snapshot.wallImageHeight ?? null,
+    artPieces: snapshot.artPieces.map(piece => {
+      const added = {
+        artworkId: piece.artworkId ?? null,
+        groupName: piece.groupName ?? null,
+        locked: piece.locked ?? false,
+        legacyRect: piece.legacyRect ?? null,
+      };
+      if ('xInches' in piece) return { ...piece, ...added };
+      const legacy = piece as unknown as LegacySnapshotPiece;
+      return {
+        ...added,
+        imageUrl: legacy.imageUrl,
+        xInches: (legacy.x - left) / ppi,
+        yInches: (floor - legacy.y - legacy.height) / ppi,
+        realWidthInches: legacy.width / ppi,
+        realHeightInches: legacy.height / ppi,
+        legacyRect: { x: legacy.x, y: legacy.y, width: legacy.width, height: legacy.height },
+      };
+    }),
+  };
+}
+
+/**
+ * Sorts the artworks the pieces link to by whether a user may link them in a room: their own, and any
+ * already hanging there, so a collaborator's save keeps the owner's pieces linked.
+ * Artworks deleted from the library are in neither list.
+ * @param roomId The room being saved. Null for a new room.
+ */
+async function classifyArtworks(userId: number, roomId: number | null, pieces: RoomSnapshot['artPieces']) {
+  const artworkIds = [...new Set(pieces.flatMap(piece => (piece.artworkId ? [piece.artworkId] : [])))];
+  const linkable = new Set<number>();
+  const foreign: number[] = [];
+  if (artworkIds.length === 0) return { linkable, foreign };
+
+  const found = await db.select({ id: artworks.id, ownerId: artworks.ownerId }).from(artworks).where(inArray(artworks.id, artworkIds));
+  const placed = roomId === null
+    ? new Set<number>()
+    : new Set((await db
+        .selectDistinct({ artworkId: artPieces.artworkId })
+        .from(artPieces)
+        .where(and(eq(artPieces.roomId, roomId), inArray(artPieces.artworkId, artworkIds)))).map(row => row.artworkId));
+
+  found.forEach(artwork => {
+    if (artwork.ownerId === userId || placed.has(artwork.id)) linkable.add(artwork.id);
+    else foreign.push(artwork.id);
+  });
+  return { linkable, foreign };
+}
+
+// Artworks deleted from the library since a revision was saved fall back to plain pieces
+function unlink(pieces: RoomSnapshot['artPieces'], linkable: Set<number>): RoomSnapshot['artPieces'] {
+  return pieces.map(piece => ({ ...piece, artworkId: piece.artworkId && linkable.has(piece.artworkId) ? piece.artworkId : null }));
+}
+
+/**
+ * Checks that a user may link every artwork the pieces show, and unlinks those since deleted.
+ * @throws ArtworkAccessError
+ */
+async function linkArtworks(userId: number, roomId: number | null, pieces: RoomSnapshot['artPieces']) {
+  const { linkable, foreign } = await classifyArtworks(userId, roomId, pieces);
+  if (foreign.length > 0) throw new ArtworkAccessError(foreign);
+  return unlink(pieces, linkable);
+}
+
+async function reserveRoomId(): Promise<number> {
+  const result = await db.execute(sql`select nextval(pg_get_serial_sequence('rooms', 'id')) as id`);
+  return Number((result as unknown as { rows: { id: string | number }[] }).rows[0].id);
+}
+
+function insertPieces(client: typeof db, roomId: number, pieces: RoomSnapshot['artPieces']) {
+  if (pieces.length === 0) return [];
+  return [client.insert(artPieces).values(pieces.map(piece => ({ ...piece, roomId })))];
+}
+
+function recordRevision(client: typeof db, roomId: number, snapshot: RoomSnapshot) {
+  return client.insert(roomRevisions).values({ roomId, snapshot });
+}
@@ -1,27 +1,153 @@
 
-import { pgTable, serial, text, real, timestamp, integer } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, real, timestamp, integer, jsonb, primaryKey, boolean } from 'drizzle-orm/pg-core';
+import type { WallCorners } from '../utils/perspectiveCorrection';
+import type { HangingHardware } from './artworkContract';
+import type { CollaboratorRole } from './authContract';
+
+export type LegacyRect = { x: number; y: number; width: number; height: number };
+
+export const users = pgTable('users', {
+  id: serial('id').primaryKey(),
+  // Stored lowercased, see normalizeEmail
+  email: text('email').notNull().unique(),
+  name: text('name'),
+  // scrypt, as "salt:hash" in hex
+  passwordHash: text('password_hash').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Signed-in browsers. The id is the SHA-256 of the cookie token, so a database leak doesn't leak sessions.
+export const sessions = pgTable('sessions', {
+  id: text('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// A job spanning several walls. Each wall is a room row with its own photo, calibration and placements.
+export const projects = pgTable('projects', {
+  id: serial('id').primaryKey(),
+  ownerId: integer('owner_id').references(() => users.id),
+  name: text('name').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
 
 export const rooms = pgTable('rooms', {
   id: serial('id').primaryKey(),
+  // Null only for rooms created before accounts existed
+  ownerId: integer('owner_id').references(() => users.id),
   name: text('name').notNull(),
+  // Null for a standalone wall
+  projectId: integer('project_id').references(() => projects.id),
+  // Order of the wall within its project
+  position: integer('position').notNull().default(0),
   wallImageUrl: text('wall_image_url'),
+  // Calibration geometry. The corners are in intrinsic pixels of the wall image; the scale and the floor line are
+  // in the rectified flat-wall coordinates the corners define, or in those image pixels when there are no corners.
   referenceRatioPpi: real('reference_ratio_ppi'),
+  floorY: real('floor_y'),
+  wallCorners: jsonb('wall_corners').$type<WallCorners>(),
+  // How far the calibration's reference measurements disagree with its scale (RMS, in inches).
+  // Null when the calibration had a single reference or predates the estimate.
+  calibrationErrorInches: real('calibration_error_inches'),
+  // Real width / height of the wall the corners outline, when references measured it both across and up.
+  // Null when the proportions are estimated from the photo's perspective.
+  wallAspect: real('wall_aspect'),
+  wallImageWidth: integer('wall_image_width'),
+  wallImageHeight: integer('wall_image_height'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// The art library shared by all rooms. Sizes are the real-world dimensions of the framed piece.
+export const artworks = pgTable('artworks', {
+  id: serial('id').primaryKey(),
+  ownerId: integer('owner_id').references(() => users.id),
+  imageUrl: text('image_url').notNull(),
+  title: text('title').notNull(),
+  artist: text('artist'),
+  widthInches: real('width_inches').notNull(),
+  heightInches: real('height_inches').notNull(),
+  frameDepthInches: real('frame_depth_inches'),
+  hangingHardware: text('hanging_hardware').$type<HangingHardware>(),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
 export const artPieces = pgTable('art_pieces', {
   id: serial('id').primaryKey(),
   roomId: integer('room_id').references(() => rooms.id),
+  // Null for pieces placed before the art library existed
+  artworkId: integer('artwork_id').references(() => artworks.id),
   imageUrl: text('image_url').notNull(),
-  x: real('x').notNull(),
-  y: real('y').notNull(),
-  width: real('width').notNull(),
-  height: real('height').notNull(),
-  realWidthInches: real('real_width_inches'),
-  realHeightInches: real('real_height_inches'),
+  // Placement in wall space: inches from the left wall edge, and from the floor up to the frame's bottom edge
+  xInches: real('x_inches').notNull(),
+  yInches: real('y_inches').notNull(),
+  realWidthInches: real('real_width_inches').notNull(),
+  realHeightInches: real('real_height_inches').notNull(),
+  // Pieces saved before placements were stored in inches: their rect in pixels of the editor canvas at the time.
+  // The editor converts it at its current canvas scale and saves inches; until then the inches are an estimate.
+  legacyRect: jsonb('legacy_rect').$type<LegacyRect>(),
+  // Pieces of a room with the same group name form a group, which moves and resizes as a unit
+  groupName: text('group_name'),
+  // Locked pieces can't be moved, resized or deleted until unlocked
+  locked: boolean('locked').notNull().default(false),
+});
+
+// Every save of a room stores a full copy of it here, so any earlier arrangement can be restored
+export const roomRevisions = pgTable('room_revisions', {
+  id: serial('id').primaryKey(),
+  roomId: integer('room_id').references(() => rooms.id).notNull(),
+  snapshot: jsonb('snapshot').$type<RoomSnapshot>().notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Uploaded images, addressed by the SHA-256 of their bytes. The binaries live in asset storage.
+export const assets = pgTable('assets', {
+  hash: text('hash').primaryKey(),
+  // The first uploader. Identical files from other users share the record.
+  ownerId: integer('owner_id').references(() => users.id),
+  contentType: text('content_type').notNull(),
+  byteSize: integer('byte_size').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// People the owner invited to a room, besides the owner
+export const roomCollaborators = pgTable('room_collaborators', {
+  roomId: integer('room_id').references(() => rooms.id).notNull(),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  role: text('role').$type<CollaboratorRole>().notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [primaryKey({ columns: [table.roomId, table.userId] })]);
+
+// Read-only links to a room. A token stops working once revoked or past its expiry.
+export const shareTokens = pgTable('share_tokens', {
+  token: text('token').primaryKey(),
+  roomId: integer('room_id').references(() => rooms.id).notNull(),
+  expiresAt: timestamp('expires_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow(),
 });
 
+export type User = typeof users.$inferSelect;
+export type Project = typeof projects.$inferSelect;
 export type Room = typeof rooms.$inferSelect;
 export type NewRoom = typeof rooms.$inferInsert;
 export type ArtPiece = typeof artPieces.$inferSelect;
 export type NewArtPiece = typeof artPieces.$inferInsert;
+export type RoomRevision = typeof roomRevisions.$inferSelect;
+export type Asset = typeof assets.$inferSelect;
+export type Artwork = typeof artworks.$inferSelect;
+export type NewArtwork = typeof artworks.$inferInsert;
+export type ShareToken = typeof shareTokens.$inferSelect;
+
+// A room joined with every art piece placed on it, as served by GET /api/room/[id]
+export type RoomDocument = Room & { artPieces: ArtPiece[] };
+
+// Everything needed to write a room back, independent of database ids
+export type RoomSnapshot = Pick<
+  Room,
+  'name' | 'wallImageUrl' | 'referenceRatioPpi' | 'floorY' | 'wallCorners' | 'calibrationErrorInches' | 'wallAspect' | 'wallImageWidth' | 'wallImageHeight'
+> & {
+  artPieces: Omit<NewArtPiece, 'id' | 'roomId'>[];
+};
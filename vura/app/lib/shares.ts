@@ -0,0 +1,78 @@
+import { randomBytes } from 'crypto';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { db } from './db';
+import { shareTokens, ShareToken } from './schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function sharePath(token: string): string {
+  return `/share/${token}`;
+}
+
+function isActive(share: ShareToken, now = new Date()): boolean {
+  if (share.revokedAt) return false;
+  return !share.expiresAt || share.expiresAt > now;
+}
+
+function toShareLink(share: ShareToken) {
+  return {
+    token: share.token,
+    path: sharePath(share.token),
+    expiresAt: share.expiresAt,
+    createdAt: share.createdAt,
+    active: isActive(share),
+  };
+}
+
+/**
+ * Creates a read-only link to a room. Tokens are random and unguessable,
+ * holding one is all it takes to view the room.
+ * @param expiresInDays Leave out for a link that never expires.
+ */
+export async function createShareLink(roomId: number, expiresInDays?: number | null) {
+  const [share] = await db
+    .insert(shareTokens)
+    .values({
+      token: randomBytes(24).toString('base64url'),
+      roomId,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+    })
+    .returning();
+
+  return toShareLink(share);
+}
+
+/**
+ * Lists the links of a room that have not been revoked, newest first. Expired links are included.
+ */
+export async function listShareLinks(roomId: number) {
+  const result = await db
+    .select()
+    .from(shareTokens)
+    .where(and(eq(shareTokens.roomId, roomId), isNull(shareTokens.revokedAt)))
+    .orderBy(desc(shareTokens.createdAt));
+
+  return result.map(toShareLink);
+}
+
+/**
+ * Revokes a link for good.
+ * @returns false when the token does not belong to the room.
+ */
+export async function revokeShareLink(roomId: number, token: string): Promise<boolean> {
+  const revoked = await db
+    .update(shareTokens)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(shareTokens.token, token), eq(shareTokens.roomId, roomId)))
+    .returning({ token: shareTokens.token });
+
+  return revoked.length > 0;
+}
+
+/**
+ * Looks up the room behind a link. Returns null for unknown, revoked and expired tokens alike.
+ */
+export async function resolveShareToken(token: string): Promise<number | null> {
+  const [share] = await db.select().from(shareTokens).where(eq(shareTokens.token, token));
+  return share && isActive(share) ? share.roomId : null;
+}
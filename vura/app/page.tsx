@@ -1,30 +1,111 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Rnd } from 'react-rnd';
-import { Upload, LayoutGrid, Trash2, Save, Download, Ruler, Move, Layout, Sparkles } from 'lucide-react';
+import { Upload, LayoutGrid, Trash2, Save, Download, Ruler, Move, Sparkles, FileDown, FileUp, History, LogOut, MousePointer2, Undo2, Redo2, Group, Ungroup, Lock, LockOpen, Frame,
+  AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalSpaceAround, AlignVerticalSpaceAround } from 'lucide-react';
 import gsap from 'gsap';
 import CalibrationModal from './components/CalibrationModal';
-import ArtUploader from './components/ArtUploader';
-import { LayoutEngine } from './utils/layoutEngine';
-import { generateHangingGuide } from './utils/pdfGenerator';
+import ArtInventory, { ARTWORK_DRAG_TYPE } from './components/ArtInventory';
+import { AlignEdge, DistributeAxis, LayoutEngine } from './utils/layoutEngine';
+import { generateHangingGuide, generateProjectGuide } from './utils/pdfGenerator';
 import { LayoutSelector } from './components/LayoutSelector';
-import { PerspectiveTransformer, Point } from './utils/perspectiveCorrection';
+import { Point, WallCorners } from './utils/perspectiveCorrection';
 import { ObjectDetection } from './utils/objectDetection';
 import LandingPage from './components/LandingPage';
 import AlertDialog from './components/AlertDialog';
+import RevisionHistory from './components/RevisionHistory';
+import ShareLinks from './components/ShareLinks';
+import HistoryDrawer from './components/HistoryDrawer';
+import WallSwitcher from './components/WallSwitcher';
+import DraftRestoreDialog from './components/DraftRestoreDialog';
+import AuthDialog from './components/AuthDialog';
+import Collaborators from './components/Collaborators';
+import PieceInspector from './components/PieceInspector';
+import { AssetClient } from './utils/assetClient';
+import { ScreenRect, WallRect, WallSpace } from './utils/wallSpace';
+import { RoomApi, RoomApiError } from './utils/roomApi';
+import { RoomBundle, RoomBundleError, BUNDLE_EXTENSION } from './utils/roomBundle';
+import { artworkRecordSchema, ArtworkRecord } from './lib/artworkContract';
+import { ProjectApi } from './utils/projectApi';
+import { AuthApi } from './utils/authApi';
+import { diffPieces, LiveSession } from './utils/liveSession';
+import { DraftStore, documentSignature, EditorDocument, EditorDraft } from './utils/draftStore';
+import { EditHistory, EditHistoryState, EMPTY_HISTORY, WallEditState } from './utils/editHistory';
+import { Selection } from './utils/selection';
+import { Guide, SmartGuides } from './utils/smartGuides';
+import { FlatWall, FlatWallError } from './utils/flatWall';
+import type { ProjectDocument } from './lib/projectContract';
+import type { RoomAccessRole, SessionUser } from './lib/authContract';
+import type { LivePeer } from './lib/collabContract';
 
+// Placements live in wall space (inches), see WallSpace for the screen conversion
 interface ArtPiece {
   id: number;
+  artworkId: number | null; // Library artwork shown by this piece
   url: string;
-  x: number;
-  y: number;
+  x: number; // From the left wall edge
+  y: number; // From the floor to the bottom edge
   width: number;
   height: number;
+  groupName: string | null; // Pieces with the same group name move and resize together
+  locked: boolean;
 }
 
+// The gallery centerline: inches above the floor that art is centered on, by the 57" button, the layouts and the snap guide
+const CENTER_LINE_INCHES = 57;
+
+// Nudge distances in inches. Arrow keys use the fine step with Alt, the coarse one with Shift.
+const NUDGE_STEPS = [
+  { inches: 0.125, label: '1/8"' },
+  { inches: 0.5, label: '1/2"' },
+  { inches: 1, label: '1"' },
+];
+
+const ALIGN_COMMANDS: { edge: AlignEdge; label: string; Icon: typeof AlignStartVertical }[] = [
+  { edge: 'left', label: 'Align left edges', Icon: AlignStartVertical },
+  { edge: 'center-x', label: 'Align horizontal centers', Icon: AlignCenterVertical },
+  { edge: 'right', label: 'Align right edges', Icon: AlignEndVertical },
+  { edge: 'top', label: 'Align top edges', Icon: AlignStartHorizontal },
+  { edge: 'center-y', label: 'Align vertical centers', Icon: AlignCenterHorizontal },
+  { edge: 'bottom', label: 'Align bottom edges', Icon: AlignEndHorizontal },
+];
+
+// Local drafts are written once edits pause for this long
+const AUTOSAVE_DELAY_MS = 1000;
+// How often saves made while offline are retried, on top of the browser's online event
+const SYNC_RETRY_MS = 30_000;
+
+// Wall-space direction of each arrow key (y grows upwards)
+const ARROW_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: 1 },
+  ArrowDown: { x: 0, y: -1 },
+};
+
+// Rubber band being drawn on the wall, in inches
+interface Marquee {
+  origin: Point;
+  current: Point;
+  additive: boolean; // Shift held: adds to the selection instead of replacing it
+}
+
+const marqueeRect = (m: Marquee): WallRect => ({
+  x: Math.min(m.origin.x, m.current.x),
+  y: Math.min(m.origin.y, m.current.y),
+  width: Math.abs(m.current.x - m.origin.x),
+  height: Math.abs(m.current.y - m.origin.y),
+});
+
+// Piece ids are created on every collaborator's machine, the random part keeps two added in the same millisecond apart
+const newPieceId = () => Date.now() * 1000 + Math.floor(Math.random() * 1000);
+
 const VuraApp = () => {
   const [hasStarted, setHasStarted] = useState(false);
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [isSessionLoaded, setIsSessionLoaded] = useState(false);
 
   // Existing States
   const [wallImage, setWallImage] = useState<string | null>(null);
@@ -33,10 +114,20 @@ const VuraApp = () => {
   // New States for Vura Logic
   const [ppi, setPpi] = useState<number>(0); // Pixels Per Inch
   const [floorY, setFloorY] = useState<number>(0); // Intrinsic Y coordinate of the floor
+  const [wallCorners, setWallCorners] = useState<WallCorners | null>(null); // Intrinsic wall quad from calibration
+  const [calibrationError, setCalibrationError] = useState<number | null>(null); // Inches, when several references were measured
+  const [wallAspect, setWallAspect] = useState<number | null>(null); // Real width / height inside the corners, when measured
   const [isCalibrating, setIsCalibrating] = useState(false);
   const [roomName, setRoomName] = useState("My Gallery Wall");
+  const [roomId, setRoomId] = useState<number | null>(null); // Set once the room exists in the database
+  const [localId, setLocalId] = useState(() => crypto.randomUUID()); // Identifies the room while it's unsaved
+  const [project, setProject] = useState<ProjectDocument | null>(null); // The project this wall belongs to, if any
+  const [accessRole, setAccessRole] = useState<RoomAccessRole>('owner'); // The signed-in user's role on the open room
+  const [peers, setPeers] = useState<LivePeer[]>([]); // Collaborators editing this room right now
+  const [draftOffer, setDraftOffer] = useState<EditorDraft | null>(null); // Unsaved work found on startup, until the user decides
+  const [isDraftChecked, setIsDraftChecked] = useState(false);
+  const [queuedSaves, setQueuedSaves] = useState(0); // Saves made offline, waiting for the server
   const [wallDimensions, setWallDimensions] = useState({ width: 0, height: 0 });
-  const [recentRooms, setRecentRooms] = useState<any[]>([]);
   const [showHistory, setShowHistory] = useState(false);
 
   // AI Designer Mode State
@@ -45,22 +136,87 @@ const VuraApp = () => {
       open: false, title: '', message: '', type: 'info'
   });
 
+  // Unsaved rooms always belong to the signed-in user
+  const canEdit = roomId === null || accessRole !== 'viewer';
+  const isOwner = roomId === null || accessRole === 'owner';
+  const viewOnlyTitle = canEdit ? undefined : 'You can view this room but not change it';
+
   useEffect(() => {
-    // Fetch recent rooms on mount
-    fetch('/api/room')
-      .then(res => res.json())
-      .then(data => {
-        if (Array.isArray(data)) setRecentRooms(data);
-      })
-      .catch(err => console.error(err));
+    AuthApi.session()
+      .then(session => setUser(session.user))
+      .catch(console.error)
+      .finally(() => setIsSessionLoaded(true));
   }, []);
 
-  const loadRoom = (room: any) => {
-    setRoomName(room.name);
-    setWallImage(room.wall_image_url);
-    setPpi(room.reference_ratio_ppi);
-    setFloorY(room.floor_y || 0);
-    setShowHistory(false);
+  const refreshProject = async (projectId: number | null) => {
+    setProject(projectId === null ? null : await ProjectApi.get(projectId));
+  };
+
+  // Pieces saved before placements were stored in inches, by id: their rect in pixels of the editor canvas at the time
+  const legacyRectsRef = useRef(new Map<number, ScreenRect>());
+
+  const loadRoom = async (roomId: number) => {
+    try {
+      const room = await RoomApi.get(roomId);
+      // Projects are private to their owner, collaborators only get the wall they were invited to
+      await refreshProject(room.projectId).catch(() => setProject(null));
+
+      const pieces = room.artPieces.map(p => ({
+        id: p.id,
+        artworkId: p.artworkId,
+        url: p.imageUrl,
+        x: p.xInches,
+        y: p.yInches,
+        width: p.realWidthInches,
+        height: p.realHeightInches,
+        groupName: p.groupName,
+        locked: p.locked
+      }));
+      const dimensions = room.wallImageWidth && room.wallImageHeight
+        ? { width: room.wallImageWidth, height: room.wallImageHeight }
+        : { width: 0, height: 0 };
+
+      setRoomId(room.id);
+      setAccessRole(room.accessRole);
+      setRoomName(room.name);
+      setWallImage(room.wallImageUrl);
+      setPpi(room.referenceRatioPpi || 0);
+      setFloorY(room.floorY || 0);
+      setWallCorners(room.wallCorners);
+      setCalibrationError(room.calibrationErrorInches);
+      setWallAspect(room.wallAspect);
+      setArtPieces(pieces);
+      legacyRectsRef.current = new Map(room.artPieces.flatMap(p => (p.legacyRect ? [[p.id, p.legacyRect] as const] : [])));
+      setHistory(EMPTY_HISTORY);
+      setSelectedIds([]);
+      syncedSignatureRef.current = documentSignature({
+        roomId: room.id,
+        roomName: room.name,
+        wallImage: room.wallImageUrl,
+        ppi: room.referenceRatioPpi || 0,
+        floorY: room.floorY || 0,
+        wallCorners: room.wallCorners,
+        calibrationErrorInches: room.calibrationErrorInches,
+        wallAspect: room.wallAspect,
+        wallDimensions: dimensions,
+        artPieces: pieces,
+      });
+
+      // Rooms saved before the intrinsic size was stored fall back to measuring the image
+      if (dimensions.width > 0) {
+        setWallDimensions(dimensions);
+      } else if (room.wallImageUrl) {
+        const img = new Image();
+        img.onload = () => setWallDimensions({ width: img.width, height: img.height });
+        img.src = room.wallImageUrl;
+      } else {
+        setWallDimensions({ width: 0, height: 0 });
+      }
+      setShowHistory(false);
+    } catch (err) {
+      console.error(err);
+      setAlertState({ open: true, title: "Load Failed", message: "We couldn't open that room. Please try again.", type: "error" });
+    }
   };
 
   // 1. Upload Wall Logic
@@ -69,6 +225,8 @@ const VuraApp = () => {
     if (file) {
       const url = URL.createObjectURL(file);
       setWallImage(url);
+      // Calibration steps recorded against the previous photo don't apply to this one
+      setHistory(EMPTY_HISTORY);
 
       const img = new Image();
       img.onload = () => {
@@ -79,25 +237,489 @@ const VuraApp = () => {
     }
   };
 
-  const handleArtProcessed = (url: string) => {
-    let defaultWidthPx = 150;
-    if (ppi > 0) {
-      defaultWidthPx = LayoutEngine.inchesToPixels(20, ppi);
+  // Ref for the visual canvas to get accurate CSS pixel dimensions for layout
+  const wallContainerRef = useRef<HTMLDivElement>(null);
+  // The photo itself, pointer positions are read relative to it
+  const wallSurfaceRef = useRef<HTMLDivElement>(null);
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+
+  // Track the rendered canvas size so placements follow window resizes
+  useEffect(() => {
+    const container = wallContainerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => {
+      setCanvasSize({ width: container.clientWidth, height: container.clientHeight });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [hasStarted]);
+
+  // Flat wall view: the photo dewarped with the calibrated corners, so an inch is the same size everywhere.
+  // The rendered picture is kept with the photo, corners and proportions it was made from.
+  const [flatView, setFlatView] = useState(false);
+  const [flatWall, setFlatWall] = useState<{ source: string; corners: WallCorners; aspect: number | null; url: string } | null>(null);
+  const flatWallCurrent = flatWall && flatWall.source === wallImage && flatWall.corners === wallCorners && flatWall.aspect === wallAspect;
+  const flatWallImage = flatView && flatWallCurrent ? flatWall.url : null;
+
+  useEffect(() => {
+    if (!flatView || !wallImage || !wallCorners) return;
+    if (flatWallCurrent) return;
+    let cancelled = false;
+    FlatWall.render(wallImage, wallCorners, wallAspect)
+      .then(url => {
+        if (cancelled) URL.revokeObjectURL(url);
+        else setFlatWall({ source: wallImage, corners: wallCorners, aspect: wallAspect, url });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error(err);
+        setFlatView(false);
+        const message = err instanceof FlatWallError ? err.message : "We couldn't straighten the wall photo.";
+        setAlertState({ open: true, title: "Flat View Unavailable", message, type: "error" });
+      });
+    return () => { cancelled = true; };
+  }, [flatView, flatWallCurrent, wallImage, wallCorners, wallAspect]);
+
+  // A rendered flat wall is released once a newer one replaces it
+  useEffect(() => {
+    if (!flatWall) return;
+    const { url } = flatWall;
+    return () => URL.revokeObjectURL(url);
+  }, [flatWall]);
+
+  // Converts stored inches to screen pixels for the current zoom level (Rendered / Intrinsic).
+  // The flat wall is already rectified, so placements go onto it without the perspective.
+  const wallSpace = useMemo(() => {
+    const scale = wallDimensions.width > 0 && canvasSize.width > 0 ? canvasSize.width / wallDimensions.width : 1;
+    return new WallSpace({ ppi, floorY, imageWidth: wallDimensions.width, imageHeight: wallDimensions.height, wallCorners, wallAspect }, scale, !!flatWallImage);
+  }, [ppi, floorY, wallCorners, wallAspect, flatWallImage, wallDimensions, canvasSize]);
+
+  // The point on the wall under the pointer, in inches, following the wall's perspective in the photo
+  const wallPointAt = (e: { clientX: number; clientY: number }) => {
+    const bounds = wallSurfaceRef.current?.getBoundingClientRect();
+    return wallSpace.fromPhotoPoint({ x: e.clientX - (bounds?.left ?? 0), y: e.clientY - (bounds?.top ?? 0) });
+  };
+
+  // --- Live editing ---
+
+  const liveSessionRef = useRef<LiveSession | null>(null);
+  const livePiecesRef = useRef<ArtPiece[] | null>(null); // The pieces as last synced with the live session
+  // Set after restoring a draft: the next snapshot is overwritten with the local pieces instead of replacing them
+  const keepLocalPiecesRef = useRef(false);
+
+  // Latest pieces and calibration, for handlers that finish after an await
+  const editStateRef = useRef<WallEditState<ArtPiece>>({ pieces: artPieces, ppi, floorY, wallCorners, calibrationErrorInches: calibrationError, wallAspect });
+
+  useEffect(() => {
+    editStateRef.current = { pieces: artPieces, ppi, floorY, wallCorners, calibrationErrorInches: calibrationError, wallAspect };
+  }, [artPieces, ppi, floorY, wallCorners, calibrationError, wallAspect]);
+
+  // Saved rooms are edited live with everyone who has them open
+  useEffect(() => {
+    if (roomId === null || !user) return;
+    const session = new LiveSession(roomId, {
+      onPieces: pieces => {
+        if (keepLocalPiecesRef.current) {
+          keepLocalPiecesRef.current = false;
+          livePiecesRef.current = editStateRef.current.pieces;
+          session.submit(diffPieces(pieces, editStateRef.current.pieces));
+          return;
+        }
+        livePiecesRef.current = pieces;
+        setArtPieces(pieces);
+      },
+      onPeers: setPeers,
+    });
+    liveSessionRef.current = session;
+    return () => {
+      session.close();
+      liveSessionRef.current = null;
+      livePiecesRef.current = null;
+      setPeers([]);
+    };
+  }, [roomId, user]);
+
+  // Whatever changed the pieces locally (drags, layouts, the library), the difference goes out as operations
+  useEffect(() => {
+    const session = liveSessionRef.current;
+    const synced = livePiecesRef.current;
+    if (!session || !synced || artPieces === synced || !canEdit) return;
+
+    livePiecesRef.current = artPieces;
+    session.submit(diffPieces(synced, artPieces));
+  }, [artPieces, canEdit]);
+
+  // Legacy pieces are converted once the canvas is measured, to where the old editor showed them at this size.
+  // Their pixels were never warped, so they are read as flat coordinates. The next save stores the converted inches.
+  useEffect(() => {
+    const legacyRects = legacyRectsRef.current;
+    if (legacyRects.size === 0 || wallDimensions.width === 0 || canvasSize.width === 0) return;
+    legacyRectsRef.current = new Map();
+    // A live snapshot still on its way holds the estimates, the conversion goes out in its place
+    if (liveSessionRef.current && !livePiecesRef.current) keepLocalPiecesRef.current = true;
+
+    const canvas = new WallSpace({ ppi, floorY, imageWidth: wallDimensions.width, imageHeight: wallDimensions.height, wallCorners, wallAspect }, canvasSize.width / wallDimensions.width, true);
+    setArtPieces(prev => prev.map(p => {
+      const rect = legacyRects.get(p.id);
+      return rect ? { ...p, ...canvas.fromScreenRect(rect) } : p;
+    }));
+  }, [ppi, floorY, wallCorners, wallAspect, wallDimensions, canvasSize]);
+
+  // --- Undo / redo ---
+
+  const [history, setHistory] = useState<EditHistoryState<ArtPiece>>(EMPTY_HISTORY);
+
+  const applyEditState = (state: WallEditState<ArtPiece>) => {
+    editStateRef.current = state;
+    setArtPieces(state.pieces);
+    setPpi(state.ppi);
+    setFloorY(state.floorY);
+    setWallCorners(state.wallCorners);
+    setCalibrationError(state.calibrationErrorInches);
+    setWallAspect(state.wallAspect);
+  };
+
+  // Every edit of the pieces or the calibration goes through here so it can be undone.
+  // Collaborators' changes arrive through the live session and are not recorded.
+  const commitEdit = (label: string, update: (state: WallEditState<ArtPiece>) => Partial<WallEditState<ArtPiece>>, coalesceKey: string | null = null) => {
+    // Viewers' controls are disabled; this keeps anything that slips through from drifting their copy of the room
+    if (!canEdit) return;
+    const before = editStateRef.current;
+    const after = { ...before, ...update(before) };
+    if (after.pieces === before.pieces && after.ppi === before.ppi && after.floorY === before.floorY && after.wallCorners === before.wallCorners && after.calibrationErrorInches === before.calibrationErrorInches && after.wallAspect === before.wallAspect) return;
+
+    setHistory(prev => EditHistory.record(prev, { label, before, after, coalesceKey }));
+    applyEditState(after);
+  };
+
+  const undo = () => {
+    const result = EditHistory.undo(history, editStateRef.current);
+    if (!result) return;
+    setHistory(result.history);
+    applyEditState(result.state);
+  };
+
+  const redo = () => {
+    const result = EditHistory.redo(history, editStateRef.current);
+    if (!result) return;
+    setHistory(result.history);
+    applyEditState(result.state);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), and Ctrl+Y. Typing in a field keeps the field's own undo.
+  // Escape clears the selection, arrow keys nudge it, leaving locked pieces in place. Viewers only get Escape.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (e.key === 'Escape') {
+        setSelectedIds([]);
+        return;
+      }
+      if (!canEdit) return;
+      const arrow = ARROW_DIRECTIONS[e.key];
+      if (arrow && !e.ctrlKey && !e.metaKey) {
+        e.preventDefault();
+        const step = NUDGE_STEPS[e.altKey ? 0 : e.shiftKey ? 2 : 1].inches;
+        nudge(arrow.x * step, arrow.y * step);
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // --- Selection, groups and locks ---
+
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+  // The pieces being dragged. start is the wall point first pressed, offset the snapped move of the set, both in inches.
+  const [drag, setDrag] = useState<{
+    ids: number[];
+    pointer: Point; // Client coordinates of the press
+    start: Point;
+    offset: Point;
+    guides: Guide[];
+    moved: boolean;
+  } | null>(null);
+  // The selection right after the last press on a piece, read by the drag that press starts
+  const pressedSelectionRef = useRef<number[]>([]);
+
+  const selectedPieces = artPieces.filter(p => selectedIds.includes(p.id));
+
+  const pressPiece = (id: number, additive: boolean) => {
+    const next = Selection.click(artPieces, selectedIds, id, additive);
+    pressedSelectionRef.current = next;
+    setSelectedIds(next);
+  };
+
+  // A piece moves with the selection when it is part of it, and alone otherwise
+  const movingWith = (art: ArtPiece) => {
+    const selected = pressedSelectionRef.current;
+    return selected.includes(art.id) ? Selection.movable(artPieces, selected).map(p => p.id) : [art.id];
+  };
+
+  // Where a drag puts the dragged pieces: moved as far as the pointer, snapped to the smart guides unless Alt is held
+  const snapDrag = (offset: Point, ids: number[], bypass: boolean) => {
+    if (bypass) return { offset, guides: [] };
+
+    const moving = artPieces.filter(p => ids.includes(p.id)).map(p => ({ ...p, x: p.x + offset.x, y: p.y + offset.y }));
+    const others = artPieces.filter(p => !ids.includes(p.id));
+    const snap = SmartGuides.snap(LayoutEngine.bounds(moving), others, {
+      width: wallSpace.widthInches,
+      height: wallSpace.topInches,
+      centerLine: CENTER_LINE_INCHES,
+    });
+    return { offset: { x: offset.x + snap.dx, y: offset.y + snap.dy }, guides: snap.guides };
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLDivElement>, art: ArtPiece) => {
+    pressPiece(art.id, e.shiftKey);
+    // Locked pieces stay put for everyone and every piece does for viewers, and the delete button keeps its clicks
+    if (!canEdit || art.locked || e.button !== 0 || (e.target as HTMLElement).closest('button')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    liveSessionRef.current?.setPresence({ activePieceId: art.id });
+    setDrag({ ids: movingWith(art), pointer: { x: e.clientX, y: e.clientY }, start: wallPointAt(e), offset: { x: 0, y: 0 }, guides: [], moved: false });
+  };
+
+  const updateDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    // A few pixels of jitter in a click are not a move
+    const moved = drag.moved || Math.hypot(e.clientX - drag.pointer.x, e.clientY - drag.pointer.y) > 3;
+    if (!moved) return;
+    const point = wallPointAt(e);
+    setDrag({ ...drag, moved, ...snapDrag({ x: point.x - drag.start.x, y: point.y - drag.start.y }, drag.ids, e.altKey) });
+  };
+
+  const finishDrag = (e: React.PointerEvent<HTMLDivElement>, cancelled = false) => {
+    if (!drag) return;
+    liveSessionRef.current?.setPresence({ activePieceId: null });
+    setDrag(null);
+    // A click without a move must not snap the piece
+    if (!drag.moved || cancelled) return;
+    const point = wallPointAt(e);
+    const { ids } = drag;
+    const { offset } = snapDrag({ x: point.x - drag.start.x, y: point.y - drag.start.y }, ids, e.altKey);
+    commitEdit('Move', state => ({
+      pieces: state.pieces.map(p => ids.includes(p.id) ? { ...p, x: p.x + offset.x, y: p.y + offset.y } : p),
+    }), `move:${ids.join(',')}`);
+  };
+
+  const startMarquee = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Presses on a piece select the piece instead
+    if (e.target !== e.currentTarget) return;
+    const point = wallPointAt(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setMarquee({ origin: point, current: point, additive: e.shiftKey });
+  };
+
+  const updateMarquee = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!marquee) return;
+    setMarquee({ ...marquee, current: wallPointAt(e) });
+  };
+
+  const finishMarquee = () => {
+    if (!marquee) return;
+    const rect = marqueeRect(marquee);
+    // A click on the bare wall only clears the selection
+    const minSize = wallSpace.toInches(3);
+    const hit = rect.width < minSize && rect.height < minSize ? [] : Selection.inRect(artPieces, rect);
+    setSelectedIds(marquee.additive ? [...new Set([...selectedIds, ...hit])] : hit);
+    setMarquee(null);
+  };
+
+  const marqueeBand = marquee ? wallSpace.toScreenRect(marqueeRect(marquee)) : null;
+
+  const groupSelection = () => {
+    const current = [...new Set(selectedPieces.map(p => p.groupName))];
+    const suggested = current.length === 1 && current[0] ? current[0] : Selection.nextGroupName(artPieces);
+    const name = prompt("Group name", suggested)?.trim();
+    if (!name) return;
+    if (artPieces.some(p => p.groupName === name && !selectedIds.includes(p.id))) {
+      alert(`"${name}" is already the name of another group.`);
+      return;
+    }
+    commitEdit('Group', state => ({ pieces: state.pieces.map(p => selectedIds.includes(p.id) ? { ...p, groupName: name } : p) }));
+  };
+
+  const ungroupSelection = () => {
+    commitEdit('Ungroup', state => ({ pieces: state.pieces.map(p => selectedIds.includes(p.id) ? { ...p, groupName: null } : p) }));
+  };
+
+  const toggleSelectionLock = () => {
+    const locked = !selectedPieces.every(p => p.locked);
+    commitEdit(locked ? 'Lock' : 'Unlock', state => ({ pieces: state.pieces.map(p => selectedIds.includes(p.id) ? { ...p, locked } : p) }));
+  };
+
+  const handleWallPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!liveSessionRef.current || ppi <= 0) return;
+    liveSessionRef.current.setPresence({ cursor: wallPointAt(e) });
+  };
+
+  // --- Local drafts and offline saves ---
+
+  const syncedSignatureRef = useRef<string | null>(null); // The document as last loaded from or saved to the server
+  const roomIdRef = useRef(roomId);
+  const localIdRef = useRef(localId);
+
+  useEffect(() => {
+    roomIdRef.current = roomId;
+    localIdRef.current = localId;
+  }, [roomId, localId]);
+
+  const editorDocument = useMemo<EditorDocument>(
+    () => ({ roomId, localId, roomName, wallImage, ppi, floorY, wallCorners, calibrationErrorInches: calibrationError, wallAspect, wallDimensions, artPieces }),
+    [roomId, localId, roomName, wallImage, ppi, floorY, wallCorners, calibrationError, wallAspect, wallDimensions, artPieces]
+  );
+
+  useEffect(() => {
+    DraftStore.load()
+      .then(draft => {
+        if (draft?.dirty && (draft.wallImage || draft.artPieces.length > 0)) setDraftOffer(draft);
+      })
+      .catch(console.error)
+      .finally(() => setIsDraftChecked(true));
+  }, []);
+
+  // Nothing is written before the restore offer is answered, so an empty editor can't overwrite the draft.
+  // A draft left by another account is not offered and gets replaced.
+  useEffect(() => {
+    if (!isDraftChecked || !user || draftOffer?.userId === user.id) return;
+    const timer = setTimeout(() => {
+      const dirty = documentSignature(editorDocument) !== syncedSignatureRef.current;
+      DraftStore.save({ ...editorDocument, userId: user.id, savedAt: Date.now(), dirty }).catch(console.error);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [editorDocument, isDraftChecked, draftOffer, user]);
+
+  // Sends saves queued while offline as soon as the server is reachable
+  useEffect(() => {
+    if (!user) return;
+    let isSyncing = false;
+
+    const sync = async () => {
+      if (isSyncing) return;
+      isSyncing = true;
+      try {
+        const results = await DraftStore.flush(user.id);
+        results.forEach(result => {
+          if (result.status === 'synced') {
+            // A queued first save gives the still unsaved editor its room
+            if (result.localId === localIdRef.current && roomIdRef.current === null) {
+              keepLocalPiecesRef.current = true;
+              setRoomId(result.roomId);
+            }
+            setAlertState({ open: true, title: "Synced", message: `"${result.roomName}" was saved to your account.`, type: "success" });
+          } else {
+            setAlertState({ open: true, title: "Offline Save Rejected", message: `"${result.roomName}" could not be saved: ${result.message}`, type: "error" });
+          }
+        });
+        setQueuedSaves(await DraftStore.pendingCount(user.id));
+      } catch (err) {
+        console.error(err);
+      } finally {
+        isSyncing = false;
+      }
+    };
+
+    sync();
+    window.addEventListener('online', sync);
+    const timer = setInterval(sync, SYNC_RETRY_MS);
+    return () => {
+      window.removeEventListener('online', sync);
+      clearInterval(timer);
+    };
+  }, [user]);
+
+  const restoreDraft = async (draft: EditorDraft) => {
+    setDraftOffer(null);
+    legacyRectsRef.current = new Map();
+    setRoomId(draft.roomId);
+    setLocalId(draft.localId);
+    setRoomName(draft.roomName);
+    setWallImage(draft.wallImage);
+    setPpi(draft.ppi);
+    setFloorY(draft.floorY);
+    setWallCorners(draft.wallCorners);
+    setCalibrationError(draft.calibrationErrorInches);
+    setWallAspect(draft.wallAspect);
+    setWallDimensions(draft.wallDimensions);
+    setArtPieces(draft.artPieces);
+    setHistory(EMPTY_HISTORY);
+    setSelectedIds([]);
+    if (draft.roomId === null) return;
+
+    // The restored pieces win over the live copy of the room
+    keepLocalPiecesRef.current = true;
+    try {
+      const room = await RoomApi.get(draft.roomId);
+      setAccessRole(room.accessRole);
+      await refreshProject(room.projectId).catch(() => setProject(null));
+    } catch (err) {
+      console.error(err);
+      // The room was deleted meanwhile, the draft lives on as a new room
+      if (err instanceof RoomApiError && err.status === 404) setRoomId(null);
+    }
+  };
+
+  const discardDraft = () => {
+    setDraftOffer(null);
+    DraftStore.clear().catch(console.error);
+  };
+
+  // Hangs an artwork at its real size, centered on a point in wall space (the wall center at eye level by default)
+  const placeArtwork = (artwork: ArtworkRecord, center = { x: wallSpace.widthInches / 2, y: CENTER_LINE_INCHES }) => {
+    // A physical artwork can only hang on one wall of a project
+    const otherWall = project?.walls.find(wall => wall.id !== roomId && wall.artworkIds.includes(artwork.id));
+    if (otherWall) {
+      setAlertState({ open: true, title: "Already Hanging", message: `"${artwork.title}" is already placed on ${otherWall.name}.`, type: "info" });
+      return;
     }
 
     const newArt: ArtPiece = {
-      id: Date.now(),
-      url,
-      x: 50,
-      y: 50,
-      width: defaultWidthPx,
-      height: defaultWidthPx * 1.5
+      id: newPieceId(),
+      artworkId: artwork.id,
+      url: artwork.imageUrl,
+      x: center.x - artwork.widthInches / 2,
+      y: center.y - artwork.heightInches / 2,
+      width: artwork.widthInches,
+      height: artwork.heightInches,
+      groupName: null,
+      locked: false
     };
-    setArtPieces([...artPieces, newArt]);
+    commitEdit('Add artwork', state => ({ pieces: [...state.pieces, newArt] }));
   };
 
-  // Ref for the visual canvas to get accurate CSS pixel dimensions for layout
-  const wallContainerRef = useRef<HTMLDivElement>(null);
+  // Pieces follow edits made to their artwork in the library
+  const handleArtworkUpdated = (artwork: ArtworkRecord) => {
+    if (!artPieces.some(p => p.artworkId === artwork.id)) return;
+    commitEdit('Update artwork', state => ({
+      pieces: state.pieces.map(p => p.artworkId === artwork.id
+        ? { ...p, url: artwork.imageUrl, width: artwork.widthInches, height: artwork.heightInches }
+        : p),
+    }));
+  };
+
+  const handleWallDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const data = e.dataTransfer.getData(ARTWORK_DRAG_TYPE);
+    if (!data) return;
+    e.preventDefault();
+
+    const artwork = artworkRecordSchema.safeParse(JSON.parse(data));
+    if (!artwork.success) return;
+
+    placeArtwork(artwork.data, wallPointAt(e));
+  };
 
   // Animation Refs
   const prevArtPiecesRef = useRef<ArtPiece[]>([]);
@@ -111,75 +733,40 @@ const VuraApp = () => {
           const element = document.getElementById(`art-piece-${piece.id}`);
           
           if (prevPiece && element) {
-              const dx = Math.abs(piece.x - prevPiece.x);
-              const dy = Math.abs(piece.y - prevPiece.y);
+              const from = wallSpace.toScreenRect(prevPiece);
+              const to = wallSpace.toScreenRect(piece);
+              const dx = Math.abs(to.x - from.x);
+              const dy = Math.abs(to.y - from.y);
               
               if (dx > 5 || dy > 5) {
                  gsap.fromTo(element, 
-                    { x: prevPiece.x, y: prevPiece.y },
-                    { x: piece.x, y: piece.y, duration: 0.5, ease: "power3.out", overwrite: "auto" }
+                    { x: from.x, y: from.y },
+                    { x: to.x, y: to.y, duration: 0.5, ease: "power3.out", overwrite: "auto" }
                  );
               }
           }
        });
     }
     prevArtPiecesRef.current = artPieces;
-    prevArtPiecesRef.current = artPieces;
-  }, [artPieces]);
-
-  // Handle Window Resize for Responsive Scale
-  useEffect(() => {
-    const handleResize = () => {
-      // Force re-render to update getScaleFactor/PPI calculations
-      setWallDimensions(prev => ({...prev})); 
-    };
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, []);
-
-  // Helper to get Effective PPI based on current view scale
-  const getEffectivePPI = () => {
-    if (ppi === 0 || !wallContainerRef.current || wallDimensions.width === 0) {
-        if (wallContainerRef.current) {
-            return wallContainerRef.current.clientHeight / 96; 
-        }
-        return 50; 
-    }
-    return ppi * getScaleFactor();
-  };
-
-  // Get current visual scale factor (Rendered / Intrinsic)
-  const getScaleFactor = () => {
-      if (!wallContainerRef.current || wallDimensions.width === 0) return 1;
-      const containerW = wallContainerRef.current.clientWidth;
-      const containerH = wallContainerRef.current.clientHeight;
-      const scaleW = containerW / wallDimensions.width;
-      const scaleH = containerH / wallDimensions.height;
-      return Math.max(scaleW, scaleH);
-  };
-
-  const getCanvasSize = () => {
-    if (wallContainerRef.current) {
-      return {
-        width: wallContainerRef.current.clientWidth,
-        height: wallContainerRef.current.clientHeight
-      };
-    }
-    return wallDimensions;
-  };
+  }, [artPieces, wallSpace]);
 
   const showCalibrationWarning = () => {
     if (ppi === 0) alert("Using estimated scale (assuming 8ft ceiling). Click 'Calibrate' for precision.");
   };
 
-  const handleCalibrationSave = (newPpi: number, newFloorY: number) => {
-      setPpi(newPpi);
-      setFloorY(newFloorY);
+  const handleCalibrationSave = (newPpi: number, newFloorY: number, corners: WallCorners | null, errorInches: number | null, aspect: number | null) => {
+      commitEdit('Calibrate', () => ({ ppi: newPpi, floorY: newFloorY, wallCorners: corners, calibrationErrorInches: errorInches, wallAspect: aspect }));
       setIsCalibrating(false);
   };
 
+  const [nudgeStep, setNudgeStep] = useState(NUDGE_STEPS[1].inches);
+
+  // Moves the selected pieces (every unlocked piece when nothing is selected) by a distance in inches, positive dy is up
   const nudge = (dx: number, dy: number) => {
-    setArtPieces(prev => prev.map(p => ({ ...p, x: p.x + dx, y: p.y + dy })));
+    if (Selection.movable(artPieces, selectedIds).length === 0) return;
+    commitEdit('Nudge', state => ({
+      pieces: Selection.merge(state.pieces, Selection.movable(state.pieces, selectedIds).map(p => ({ ...p, x: p.x + dx, y: p.y + dy }))),
+    }), 'nudge');
   };
 
   const handleSuggestSpot = async () => {
@@ -198,28 +785,30 @@ const VuraApp = () => {
           const anchor = LayoutEngine.findPrimaryAnchor(objects);
 
           if (anchor) {
-             const activePPI = getEffectivePPI();
-             
              // Calculate Group Height
              let minY = Infinity, maxY = -Infinity;
-             if (artPieces.length === 0) {
+             const targets = Selection.movable(artPieces, selectedIds);
+             if (targets.length === 0) {
                  setIsScanningRoom(false);
                  setAlertState({ open: true, title: "No Art Found", message: "Please place some art pieces on the wall first.", type: "error" });
                  return;
              }
              
-             artPieces.forEach(p => {
+             targets.forEach(p => {
                  if (p.y < minY) minY = p.y;
                  if (p.y + p.height > maxY) maxY = p.y + p.height;
              });
              const groupHeight = maxY - minY;
 
-             // Logic: Top of Anchor - 8 inches - Group Height
-             const { x, y } = LayoutEngine.calculateAIHangPoint(anchor, activePPI, groupHeight);
+             // Detection runs on the rendered image, so the bbox is in screen pixels on the photo
+             const anchorRect = wallSpace.fromPhotoRect(anchor.bbox);
+
+             // Logic: Top of Anchor + 10 inches + Half Group Height
+             const { x, y } = LayoutEngine.calculateAIHangPoint(anchorRect, groupHeight);
              
              // Center Group
              let currentMinX = Infinity, currentMaxX = -Infinity;
-             artPieces.forEach(p => {
+             targets.forEach(p => {
                  if(p.x < currentMinX) currentMinX = p.x;
                  if(p.x + p.width > currentMaxX) currentMaxX = p.x + p.width;
              });
@@ -230,8 +819,8 @@ const VuraApp = () => {
              const dy = y - currentCenterY;
 
              // Animate
-             const newPieces = artPieces.map(p => ({...p, x: p.x + dx, y: p.y + dy}));
-             setArtPieces(newPieces);
+             const moving = targets.map(p => p.id);
+             commitEdit('Suggest best spot', state => ({ pieces: state.pieces.map(p => moving.includes(p.id) ? {...p, x: p.x + dx, y: p.y + dy} : p) }));
              
              // Success Message
              const anchorName = anchor.class.charAt(0).toUpperCase() + anchor.class.slice(1);
@@ -256,76 +845,253 @@ const VuraApp = () => {
 
   // --- Layout Logic ---
 
-  const getCenterLineY = (activePPI: number, canvasHeight: number) => {
-    const scale = getScaleFactor();
-    // Anchor Logic: If floor is set, use it. Else default to bottom.
-    const effectiveFloorY = floorY > 0 ? floorY * scale : canvasHeight;
-    // User Rule: GoalY = FloorLineY - (60 * PPI)
-    const pixelsFromFloor = LayoutEngine.inchesToPixels(60, activePPI);
-    return effectiveFloorY - pixelsFromFloor;
-  };
-
   const handleLayoutSelect = (template: string) => {
-    const activePPI = getEffectivePPI();
-    const { width } = getCanvasSize();
-    const height = wallContainerRef.current?.clientHeight || 0;
-
     showCalibrationWarning();
     
     // Center logic
-    const centerLineY = getCenterLineY(activePPI, height);
-    const centerX = width / 2;
+    const centerX = wallSpace.widthInches / 2;
     
-    // Top estimate for layouts (approx 15 inches above center)
-    const estimatedTop = centerLineY - LayoutEngine.inchesToPixels(15, activePPI);
+    // Top estimate for layouts (approx 15 inches above center), kept just inside the photo
+    const estimatedTop = CENTER_LINE_INCHES + 15;
+    const photoTop = wallSpace.topInches - wallSpace.toInches(20);
     
-    const updated = LayoutEngine.applyTemplate(artPieces, template, {
-        startX: template === 'row' || template === 'big-center' ? centerX : (width/2) - LayoutEngine.inchesToPixels(20, activePPI), 
-        startY: Math.max(20, estimatedTop),
+    // Presets arrange the selection, or everything that isn't locked
+    commitEdit('Apply layout', state => ({
+      pieces: Selection.merge(state.pieces, LayoutEngine.applyTemplate(Selection.movable(state.pieces, selectedIds), template, {
+        startX: template === 'row' || template === 'big-center' ? centerX : centerX - 20, 
+        startY: Math.min(photoTop, estimatedTop),
         gapInches: 3,
-        ppi: activePPI,
-        wallWidth: width
-    });
-    
-    setArtPieces(updated as ArtPiece[]);
+        wallWidth: wallSpace.widthInches
+      })),
+    }));
   };
 
   const apply57InchRule = () => {
-    const { height } = getCanvasSize();
-    if (height === 0) return;
-    const activePPI = getEffectivePPI();
     showCalibrationWarning();
 
-    const centerLineY = getCenterLineY(activePPI, height);
+    commitEdit(`${CENTER_LINE_INCHES}" rule`, state => ({
+      pieces: Selection.merge(state.pieces, Selection.movable(state.pieces, selectedIds).map(p => {
+        // Center item on the center line
+        const newY = CENTER_LINE_INCHES - (p.height / 2);
+        return { ...p, y: newY };
+      })),
+    }));
+  };
+
+  const [distributeGap, setDistributeGap] = useState(''); // Inches, empty for equal gaps
 
-    const updated = artPieces.map(p => {
-      // Center item on centerLineY
-      const newY = centerLineY - (p.height / 2);
-      return { ...p, y: newY };
-    });
-    setArtPieces(updated);
+  // Groups move as one. Locked pieces don't move, but the others still align to the box around them.
+  const alignPieces = (edge: AlignEdge) => {
+    commitEdit('Align', state => ({
+      pieces: Selection.merge(state.pieces, LayoutEngine.align(
+        Selection.movable(state.pieces, selectedIds),
+        edge,
+        LayoutEngine.bounds(Selection.scope(state.pieces, selectedIds)),
+        p => p.groupName
+      )),
+    }));
+  };
+
+  const distributePieces = (axis: DistributeAxis) => {
+    const gap = distributeGap.trim() ? parseFloat(distributeGap) : undefined;
+    if (gap !== undefined && !(gap >= 0)) {
+      alert("The gap must be a number of inches, or empty for equal spacing.");
+      return;
+    }
+    // Groups are spaced as one, and pieces are spaced around the locked ones
+    commitEdit('Distribute', state => ({
+      pieces: Selection.merge(state.pieces, LayoutEngine.distribute(
+        Selection.movable(state.pieces, selectedIds),
+        axis,
+        gap,
+        Selection.scope(state.pieces, selectedIds).filter(p => p.locked),
+        p => p.groupName
+      )),
+    }));
+  };
+
+  // Saves the editor state and returns the room id. Errors are left to the caller.
+  const persistRoom = async (): Promise<number> => {
+    // Upload tab-local images first so the saved room only references stable asset URLs
+    const storedWallImage = wallImage ? await AssetClient.persist(wallImage) : null;
+    const storedPieces = await Promise.all(
+      artPieces.map(async p => ({ ...p, url: await AssetClient.persist(p.url) }))
+    );
+    setWallImage(storedWallImage);
+    setArtPieces(storedPieces);
+
+    // Existing rooms are updated in place, only the first save creates a row
+    const payload = {
+      name: roomName,
+      wallImageUrl: storedWallImage,
+      ratio: ppi,
+      floorY,
+      wallCorners,
+      calibrationErrorInches: calibrationError,
+      wallAspect,
+      wallImageWidth: wallDimensions.width || null,
+      wallImageHeight: wallDimensions.height || null,
+      artPieces: storedPieces.map(({ artworkId, url, x, y, width, height, groupName, locked }) => ({ artworkId, url, x, y, width, height, groupName, locked }))
+    };
+    const result = roomId ? await RoomApi.update(roomId, payload) : await RoomApi.create(payload);
+    setRoomId(result.roomId);
+    syncedSignatureRef.current = documentSignature({ ...editorDocument, roomId: result.roomId, wallImage: storedWallImage, artPieces: storedPieces });
+    if (project) await refreshProject(project.id);
+    return result.roomId;
+  };
+
+  const reportSaveError = (e: unknown) => {
+    console.error(e);
+    if (e instanceof RoomApiError && e.fieldErrors.length > 0) {
+      alert(`Failed to save:\n${e.fieldErrors.map(f => `${f.path}: ${f.message}`).join('\n')}`);
+    } else if (e instanceof RoomApiError && (e.status === 409 || e.status === 403)) {
+      alert(`Failed to save: ${e.message}`);
+    } else if (e instanceof RoomApiError && e.status === 401) {
+      // The session expired, sign in again and retry
+      setUser(null);
+    } else {
+      alert("Failed to save.");
+    }
   };
 
-  // Layout Variants State
-  const [gridVariant, setGridVariant] = useState(0);
-  const [mosaicVariant, setMosaicVariant] = useState(0);
+  const signOut = async () => {
+    try {
+      await AuthApi.logout();
+    } catch (e) {
+      console.error(e);
+    }
+    setUser(null);
+    setRoomId(null);
+    setLocalId(crypto.randomUUID());
+    setProject(null);
+    setWallImage(null);
+    setArtPieces([]);
+    setHistory(EMPTY_HISTORY);
+    setSelectedIds([]);
+  };
 
   const saveRoom = async () => {
     try {
-      const response = await fetch('/api/room', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: roomName, wallImageUrl: wallImage, ratio: ppi, artPieces })
-      });
-      if (response.ok) alert("Room Saved!");
+      await persistRoom();
+      alert("Room Saved!");
+    } catch (e) {
+      // fetch rejects with a TypeError when the server can't be reached at all
+      if (user && (e instanceof TypeError || !navigator.onLine)) {
+        try {
+          await DraftStore.enqueue(editorDocument, user.id);
+          setQueuedSaves(await DraftStore.pendingCount(user.id));
+          alert("You're offline. The room was saved on this device and will sync when the connection is back.");
+          return;
+        } catch (queueError) {
+          console.error(queueError);
+        }
+      }
+      reportSaveError(e);
+    }
+  };
+
+  // --- Projects ---
+
+  const createProject = async () => {
+    const name = prompt("Project name", roomName);
+    if (!name?.trim()) return;
+    try {
+      const currentRoomId = await persistRoom();
+      const { projectId } = await ProjectApi.create({ name, roomIds: [currentRoomId] });
+      await refreshProject(projectId);
+    } catch (e) {
+      reportSaveError(e);
+    }
+  };
+
+  // The current wall is saved before switching, so no edits are lost
+  const switchWall = async (wallId: number) => {
+    try {
+      await persistRoom();
+    } catch (e) {
+      reportSaveError(e);
+      return;
+    }
+    await loadRoom(wallId);
+  };
+
+  const addWall = async () => {
+    if (!project) return;
+    try {
+      await persistRoom();
+      const { roomId: wallId } = await ProjectApi.addWall(project.id);
+      await loadRoom(wallId);
+    } catch (e) {
+      reportSaveError(e);
+    }
+  };
+
+  const removeWall = async (wallId: number) => {
+    if (!project || !confirm("Remove this wall from the project? It will be kept as a standalone room.")) return;
+    try {
+      await ProjectApi.removeWall(project.id, wallId);
+      // The wall being edited leaves the project with it, any other wall just drops out of the list
+      if (wallId === roomId) setProject(null);
+      else await refreshProject(project.id);
     } catch (e) {
       console.error(e);
-      alert("Failed to save.");
+      alert("Failed to remove the wall.");
+    }
+  };
+
+  const downloadProjectGuide = async () => {
+    if (!project) return;
+    try {
+      await persistRoom();
+      const walls = await Promise.all(project.walls.map(wall => RoomApi.get(wall.id)));
+      generateProjectGuide({
+        projectName: project.name,
+        walls: walls.map(wall => ({
+          roomName: wall.name,
+          calibrationErrorInches: wall.calibrationErrorInches,
+          items: wall.artPieces.map(p => ({ id: p.id, x: p.xInches, y: p.yInches, width: p.realWidthInches, height: p.realHeightInches }))
+        }))
+      });
+    } catch (e) {
+      reportSaveError(e);
+    }
+  };
+
+  const exportBundle = async () => {
+    if (!roomId) {
+      setAlertState({ open: true, title: "Save First", message: "Save the room before exporting it.", type: "info" });
+      return;
+    }
+    try {
+      const bundle = await RoomBundle.export(roomId);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(bundle);
+      link.download = `${roomName.replace(/\s+/g, '_')}${BUNDLE_EXTENSION}`;
+      link.click();
+      // Firefox and Safari read the blob only after the click has been handled, revoking it now would cancel the download
+      setTimeout(() => URL.revokeObjectURL(link.href), 40_000);
+    } catch (err) {
+      console.error(err);
+      setAlertState({ open: true, title: "Export Failed", message: "We couldn't package this room. Please try again.", type: "error" });
+    }
+  };
+
+  const importBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const newRoomId = await RoomBundle.import(file);
+      await loadRoom(newRoomId);
+    } catch (err) {
+      console.error(err);
+      const message = err instanceof RoomBundleError ? err.message : "We couldn't import that file. Please try again.";
+      setAlertState({ open: true, title: "Import Failed", message, type: "error" });
     }
   };
 
   const downloadGuide = () => {
-    generateHangingGuide({ roomName, items: artPieces, ppi: ppi || 10, wallHeightPixels: wallDimensions.height || 800 });
+    generateHangingGuide({ roomName, calibrationErrorInches: calibrationError, items: artPieces });
   };
 
 
@@ -357,18 +1123,60 @@ const VuraApp = () => {
            {/* Magic Wand Button */}
            <button 
              onClick={handleSuggestSpot}
-             disabled={isScanningRoom}
+             disabled={!canEdit || isScanningRoom}
+             title={viewOnlyTitle}
              className="flex items-center gap-2 px-4 py-2 bg-linear-to-r from-purple-600 to-indigo-600 text-white rounded-lg hover:from-purple-700 hover:to-indigo-700 transition font-medium shadow-lg shadow-purple-900/20 disabled:opacity-50"
            >
               <Sparkles size={18} className={isScanningRoom ? "animate-spin" : ""} />
               {isScanningRoom ? "Scanning..." : "Suggest Best Spot"}
            </button>
 
-           <button onClick={() => setIsCalibrating(true)} className="flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition font-medium border border-border">
+           <div className="flex rounded-lg border border-border overflow-hidden">
+             <button
+               onClick={undo}
+               disabled={!canEdit || history.past.length === 0}
+               title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+               className="p-2 bg-secondary text-secondary-foreground hover:bg-secondary/80 transition disabled:opacity-40"
+             >
+               <Undo2 size={18} />
+             </button>
+             <button
+               onClick={redo}
+               disabled={!canEdit || history.future.length === 0}
+               title={history.future.length ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+               className="p-2 bg-secondary text-secondary-foreground hover:bg-secondary/80 transition disabled:opacity-40 border-l border-border"
+             >
+               <Redo2 size={18} />
+             </button>
+           </div>
+           <button onClick={() => setShowHistory(true)} className="flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition font-medium border border-border">
+              <History size={18} />
+              Rooms
+           </button>
+           <button
+             onClick={() => setIsCalibrating(true)}
+             disabled={!canEdit}
+             title={viewOnlyTitle}
+             className="flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition font-medium border border-border disabled:opacity-50"
+           >
               <Ruler size={18} />
               Calibrate
            </button>
-           <button onClick={() => document.getElementById('file-upload')?.click()} className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition shadow-lg shadow-blue-500/20 font-medium">
+           <button
+             onClick={saveRoom}
+             disabled={!canEdit}
+             title={viewOnlyTitle}
+             className="flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition font-medium border border-border disabled:opacity-50"
+           >
+              <Save size={18} />
+              Save
+           </button>
+           <button
+             onClick={() => document.getElementById('file-upload')?.click()}
+             disabled={!canEdit}
+             title={viewOnlyTitle}
+             className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition shadow-lg shadow-blue-500/20 font-medium disabled:opacity-50"
+           >
              <Upload size={18} />
              Upload Wall
            </button>
@@ -379,6 +1187,21 @@ const VuraApp = () => {
              className="hidden"
              onChange={handleWallUpload}
            />
+           {peers.length > 0 && (
+             <div className="flex items-center -space-x-2" title={`Editing now: ${peers.map(peer => peer.name).join(', ')}`}>
+               {peers.map(peer => (
+                 <span key={peer.clientId} className="w-8 h-8 rounded-full border-2 border-card flex items-center justify-center text-xs font-bold text-black uppercase" style={{ backgroundColor: peer.color }}>
+                   {peer.name.charAt(0)}
+                 </span>
+               ))}
+             </div>
+           )}
+           {user && (
+             <button onClick={signOut} title={`Signed in as ${user.email}`} className="flex items-center gap-2 px-4 py-2 text-gray-400 hover:text-white rounded-lg transition font-medium">
+                <LogOut size={18} />
+                Sign Out
+             </button>
+           )}
         </div>
       </header>
 
@@ -389,6 +1212,12 @@ const VuraApp = () => {
         <div className="relative flex-1 bg-black/90 md:bg-neutral-900 flex items-center justify-center overflow-hidden shrink-0 order-1 md:order-1 h-[55vh] md:h-full border-b md:border-b-0 md:border-r border-border p-4 md:p-8">
             <div
                 ref={wallContainerRef}
+                onDragOver={(e) => {
+                    if (e.dataTransfer.types.includes(ARTWORK_DRAG_TYPE)) e.preventDefault();
+                }}
+                onDrop={handleWallDrop}
+                onPointerMove={handleWallPointerMove}
+                onPointerLeave={() => liveSessionRef.current?.setPresence({ cursor: null })}
                 className="relative w-full max-w-full md:max-w-6xl shadow-2xl rounded-lg overflow-hidden border-2 border-gray-800"
                 style={{ aspectRatio: wallDimensions.width ? `${wallDimensions.width}/${wallDimensions.height}` : '16/9', maxHeight: '100%' }}
             >
@@ -398,46 +1227,71 @@ const VuraApp = () => {
                     <p>Upload a wall photo to begin</p>
                 </div>
                 ) : (
-                <div className="w-full h-full relative">
+                <div ref={wallSurfaceRef} className="w-full h-full relative">
                     <img 
-                        src={wallImage} 
+                        src={flatWallImage ?? wallImage} 
                         alt="Wall"
                         className="w-full h-full object-contain pointer-events-none wall-image"
                     />
-                    {/* Art Layer */}
-                    <div className="absolute inset-0">
+                    {/* Art Layer, laid out on the flat wall and projected onto the photo. Pressing the bare wall draws a rubber band. */}
+                    <div
+                        className="absolute inset-0"
+                        style={{ transform: wallSpace.layerTransform, transformOrigin: '0 0' }}
+                        onPointerDown={startMarquee}
+                        onPointerMove={updateMarquee}
+                        onPointerUp={finishMarquee}
+                    >
                         {artPieces.map((art) => {
-                            const scale = getScaleFactor();
-                            const activePPI = ppi * scale;
-                            const effectiveFloorY = floorY > 0 ? floorY * scale : (wallContainerRef.current?.clientHeight || wallDimensions.height);
-
-                            const centerX = art.x + art.width / 2;
-                            const centerY = art.y + art.height / 2;
-                            const inchesFromLeft = (centerX / activePPI).toFixed(1);
-                            const inchesFromFloor = ((effectiveFloorY - centerY) / activePPI).toFixed(1);
+                            const rect = wallSpace.toScreenRect(art);
+                            const heldBy = peers.find(peer => peer.presence.activePieceId === art.id);
+                            const isSelected = selectedIds.includes(art.id);
+                            const isMoving = drag !== null && drag.ids.includes(art.id);
+                            const position = isMoving ? wallSpace.toScreenRect({ ...art, x: art.x + drag.offset.x, y: art.y + drag.offset.y }) : rect;
+                            const outline = heldBy
+                                ? { outline: `3px solid ${heldBy.color}`, outlineOffset: 2 }
+                                : isSelected ? { outline: '2px solid #3b82f6', outlineOffset: 2 } : undefined;
 
                             return (
                                 <Rnd
                                 key={art.id}
                                 id={`art-piece-${art.id}`}
-                                size={{ width: art.width, height: art.height }}
-                                position={{ x: art.x, y: art.y }}
-                                onDragStop={(e, d) => {
-                                    setArtPieces(prev => prev.map(p => p.id === art.id ? { ...p, x: d.x, y: d.y } : p));
+                                size={{ width: rect.width, height: rect.height }}
+                                position={{ x: position.x, y: position.y }}
+                                // Moves are tracked on the wall below, so they follow its perspective
+                                disableDragging
+                                enableResizing={canEdit && !art.locked}
+                                scale={wallSpace.photoScaleAt(art)}
+                                onResizeStart={() => {
+                                    liveSessionRef.current?.setPresence({ activePieceId: art.id });
+                                    pressPiece(art.id, false);
                                 }}
                                 onResizeStop={(e, direction, ref, delta, position) => {
-                                    setArtPieces(prev => prev.map(p => p.id === art.id ? { 
-                                       ...p, 
-                                        width: parseInt(ref.style.width), 
-                                        height: parseInt(ref.style.height),
-                                        ...position 
-                                    } : p));
+                                    liveSessionRef.current?.setPresence({ activePieceId: null });
+                                    const resized = wallSpace.fromScreenRect({
+                                        x: position.x,
+                                        y: position.y,
+                                        width: parseFloat(ref.style.width),
+                                        height: parseFloat(ref.style.height)
+                                    });
+                                    // The rest of the selection scales along, keeping its arrangement
+                                    const ids = movingWith(art);
+                                    commitEdit('Resize', state => ({
+                                        pieces: Selection.merge(state.pieces, Selection.scaleWith(state.pieces.filter(p => ids.includes(p.id)), art, resized)),
+                                    }), `resize:${ids.join(',')}`);
                                 }}
                                 lockAspectRatio={true}
                                 bounds="parent"
                                 className="group"
                                 >
-                                <div className="relative w-full h-full shadow-2xl transition-transform hover:scale-[1.02] duration-200 group/art">
+                                <div
+                                    className="relative w-full h-full shadow-2xl transition-transform hover:scale-[1.02] duration-200 group/art"
+                                    style={outline}
+                                    title={heldBy ? `${heldBy.name} is moving this` : art.groupName ?? undefined}
+                                    onPointerDown={(e) => startDrag(e, art)}
+                                    onPointerMove={updateDrag}
+                                    onPointerUp={(e) => finishDrag(e)}
+                                    onPointerCancel={(e) => finishDrag(e, true)}
+                                >
                                     <img
                                     src={art.url}
                                     alt="Art Piece"
@@ -451,16 +1305,56 @@ const VuraApp = () => {
                                         <div className="h-full w-0.5 bg-red-500 absolute"></div>
                                     </div>
 
-                                    <button
-                                        onClick={() => setArtPieces(artPieces.filter(a => a.id !== art.id))}
-                                        className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1.5 opacity-0 group-hover/art:opacity-100 transition shadow-md hover:bg-red-600 z-30"
-                                    >
-                                        <Trash2 size={12} />
-                                    </button>
+                                    {art.locked ? (
+                                        <span className="absolute -top-2 -left-2 bg-black/80 text-white rounded-full p-1.5 shadow-md z-30" title="Locked">
+                                            <Lock size={12} />
+                                        </span>
+                                    ) : canEdit && (
+                                        <button
+                                            onClick={() => commitEdit('Delete', state => ({ pieces: state.pieces.filter(a => a.id !== art.id) }))}
+                                            className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1.5 opacity-0 group-hover/art:opacity-100 transition shadow-md hover:bg-red-600 z-30"
+                                        >
+                                            <Trash2 size={12} />
+                                        </button>
+                                    )}
                                 </div>
                                 </Rnd>
                             )})}
+
+                        {drag?.guides.map((guide, i) => {
+                            const line = guide.axis === 'x'
+                                ? wallSpace.toScreenRect({ x: guide.position, y: guide.start, width: 0, height: guide.end - guide.start })
+                                : wallSpace.toScreenRect({ x: guide.start, y: guide.position, width: guide.end - guide.start, height: 0 });
+                            return (
+                                <div key={i} className="absolute bg-pink-500 pointer-events-none z-40" style={{ left: line.x, top: line.y, width: Math.max(line.width, 1), height: Math.max(line.height, 1) }}>
+                                    <span className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 px-1 rounded bg-pink-500 text-white text-[10px] font-bold whitespace-nowrap">
+                                        {guide.label}
+                                    </span>
+                                </div>
+                            );
+                        })}
+
+                        {marqueeBand && (
+                            <div
+                                className="absolute border border-blue-400 bg-blue-400/10 pointer-events-none z-40"
+                                style={{ left: marqueeBand.x, top: marqueeBand.y, width: marqueeBand.width, height: marqueeBand.height }}
+                            />
+                        )}
                     </div>
+
+                    {/* Collaborator cursors */}
+                    {peers.map(peer => {
+                        if (!peer.presence.cursor) return null;
+                        const point = wallSpace.toPhotoPoint(peer.presence.cursor);
+                        return (
+                            <div key={peer.clientId} className="absolute pointer-events-none z-40 transition-all duration-75" style={{ left: point.x, top: point.y }}>
+                                <MousePointer2 size={16} style={{ color: peer.color, fill: peer.color }} />
+                                <span className="ml-3 px-1.5 py-0.5 rounded text-[10px] font-bold text-black whitespace-nowrap" style={{ backgroundColor: peer.color }}>
+                                    {peer.name}
+                                </span>
+                            </div>
+                        );
+                    })}
                 </div>
                 )}
             </div>
@@ -473,14 +1367,23 @@ const VuraApp = () => {
                  {/* 1. Add Art Section */}
                  <div className="space-y-3">
                     <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Your Collection</h3>
+                    {user && (
+                        <ArtInventory
+                            key={user.id}
+                            placedArtworkIds={artPieces.flatMap(p => (p.artworkId ? [p.artworkId] : []))}
+                            onPlace={(artwork) => placeArtwork(artwork)}
+                            onArtworkUpdated={handleArtworkUpdated}
+                        />
+                    )}
+                    {canEdit && (
                     <div className="flex gap-2">
-                        <ArtUploader onArtProcessed={handleArtProcessed} />
                         <label className="flex-1 flex flex-col items-center justify-center gap-2 bg-secondary/50 hover:bg-secondary text-secondary-foreground border-2 border-dashed border-border rounded-xl cursor-pointer transition p-4 h-24">
                            <Upload size={20} /> 
                            <span className="text-xs font-bold">New Wall</span>
                            <input type="file" className="hidden" onChange={handleWallUpload} accept="image/*" />
                         </label>
                     </div>
+                    )}
                  </div>
 
                  {/* 2. Room Info */}
@@ -490,21 +1393,109 @@ const VuraApp = () => {
                         className="w-full bg-secondary/30 rounded-lg px-3 py-2 text-sm font-medium focus:ring-2 focus:ring-blue-500 outline-none transition"
                         value={roomName}
                         onChange={(e) => setRoomName(e.target.value)}
+                        readOnly={!canEdit}
                         placeholder="My Living Room"
                     />
                      <div className="flex gap-2">
-                        <button onClick={() => setIsCalibrating(true)} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-900/20 text-blue-400 hover:bg-blue-900/30 rounded-lg transition font-bold text-xs border border-blue-900/30">
+                        <button
+                            onClick={() => setIsCalibrating(true)}
+                            disabled={!canEdit}
+                            title={viewOnlyTitle}
+                            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-900/20 text-blue-400 hover:bg-blue-900/30 rounded-lg transition font-bold text-xs border border-blue-900/30 disabled:opacity-50"
+                        >
                             <Ruler size={14} /> {ppi > 0 ? `${ppi.toFixed(1)} px/in` : 'Calibrate Scale'}
                         </button>
+                        <button
+                            onClick={() => setFlatView(!flatView)}
+                            disabled={!wallCorners}
+                            title={wallCorners ? 'Straighten the photo so every inch of the wall is the same size' : 'Calibrate the wall corners first'}
+                            className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg transition font-bold text-xs border disabled:opacity-40 ${flatView ? 'bg-blue-600 text-white border-blue-600' : 'bg-secondary/30 hover:bg-secondary border-border'}`}
+                        >
+                            <Frame size={14} /> {flatView && wallCorners && !flatWallImage ? 'Straightening…' : 'Flat Wall'}
+                        </button>
+                    </div>
+                    {ppi > 0 && calibrationError !== null && (
+                        <p className="text-xs text-gray-400">Measurements good to about ±{calibrationError.toFixed(2)} in</p>
+                    )}
+                    <div className="flex gap-2">
+                        <button onClick={exportBundle} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-secondary/30 hover:bg-secondary rounded-lg transition font-bold text-xs border border-border">
+                            <FileDown size={14} /> Export
+                        </button>
+                        <label className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-secondary/30 hover:bg-secondary rounded-lg transition font-bold text-xs border border-border cursor-pointer">
+                            <FileUp size={14} /> Import
+                            <input type="file" className="hidden" onChange={importBundle} accept={`${BUNDLE_EXTENSION},application/zip`} />
+                        </label>
                     </div>
+                    {queuedSaves > 0 && (
+                        <p className="text-xs font-bold text-amber-400">
+                            {queuedSaves === 1 ? '1 offline save' : `${queuedSaves} offline saves`} waiting to sync
+                        </p>
+                    )}
+                    {roomId && <RevisionHistory roomId={roomId} onRestored={() => loadRoom(roomId)} />}
+                    {roomId && canEdit && <ShareLinks roomId={roomId} />}
+                    {roomId && isOwner && <Collaborators roomId={roomId} />}
+                 </div>
+
+                 {/* Project walls */}
+                 <div className="space-y-3">
+                    <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Project</h3>
+                    <WallSwitcher
+                        project={project}
+                        currentRoomId={roomId}
+                        onCreateProject={createProject}
+                        onSelectWall={switchWall}
+                        onAddWall={addWall}
+                        onRemoveWall={removeWall}
+                        onDownloadGuide={downloadProjectGuide}
+                    />
                  </div>
 
+                 {/* Selection */}
+                 {selectedPieces.length > 0 && (
+                    <div className="space-y-3">
+                       <div className="flex items-center justify-between">
+                          <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Selection</h3>
+                          <button onClick={() => setSelectedIds([])} className="text-xs text-gray-400 hover:text-white transition">Clear</button>
+                       </div>
+                       <p className="text-xs text-gray-400">
+                          {selectedPieces.length === 1 ? '1 piece' : `${selectedPieces.length} pieces`} selected
+                          {[...new Set(selectedPieces.flatMap(p => (p.groupName ? [p.groupName] : [])))].map(name => ` · ${name}`)}
+                       </p>
+                       {canEdit && (
+                       <div className="grid grid-cols-3 gap-2">
+                          <button onClick={groupSelection} disabled={selectedPieces.length < 2} className="flex flex-col items-center gap-1 p-2 bg-card hover:bg-secondary border border-border rounded-xl transition text-xs text-gray-400 disabled:opacity-40">
+                             <Group size={16} /> Group
+                          </button>
+                          <button onClick={ungroupSelection} disabled={!selectedPieces.some(p => p.groupName)} className="flex flex-col items-center gap-1 p-2 bg-card hover:bg-secondary border border-border rounded-xl transition text-xs text-gray-400 disabled:opacity-40">
+                             <Ungroup size={16} /> Ungroup
+                          </button>
+                          <button onClick={toggleSelectionLock} className="flex flex-col items-center gap-1 p-2 bg-card hover:bg-secondary border border-border rounded-xl transition text-xs text-gray-400">
+                             {selectedPieces.every(p => p.locked) ? <><LockOpen size={16} /> Unlock</> : <><Lock size={16} /> Lock</>}
+                          </button>
+                       </div>
+                       )}
+                       {selectedPieces.length === 1 && (
+                          <PieceInspector
+                             piece={selectedPieces[0]}
+                             isEstimated={ppi === 0}
+                             canEdit={canEdit}
+                             onChange={(rect) => {
+                                const id = selectedPieces[0].id;
+                                commitEdit('Edit placement', state => ({ pieces: state.pieces.map(p => p.id === id ? { ...p, ...rect } : p) }), `inspect:${id}`);
+                             }}
+                          />
+                       )}
+                       <p className="text-[11px] text-gray-500">Shift-click or drag on the wall to select more. Nudges and presets apply to the selection. Hold Alt while dragging to skip snapping.</p>
+                    </div>
+                 )}
+
                  {/* 3. Layout Tools */}
+                 {canEdit && (
                  <div className="space-y-3">
                     <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Smart Layouts</h3>
                     <div className="grid grid-cols-2 gap-2">
                          <button onClick={apply57InchRule} className="flex flex-col items-center justify-center gap-1 p-3 bg-card hover:bg-secondary border border-border rounded-xl transition text-center aspect-square md:aspect-auto">
-                             <span className="text-lg font-bold text-blue-400">57"</span> 
+                             <span className="text-lg font-bold text-blue-400">{CENTER_LINE_INCHES}&quot;</span> 
                              <span className="text-xs text-gray-400">Eye-Level Center</span>
                          </button>
                          {/* Layout Helper is simplified here for grid */}
@@ -521,18 +1512,69 @@ const VuraApp = () => {
                          </div>
                     </div>
                  </div>
+                 )}
+
+                 {/* Align and distribute */}
+                 {canEdit && artPieces.length >= 2 && (
+                    <div className="space-y-3">
+                       <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Arrange</h3>
+                       <div className="grid grid-cols-6 gap-1 bg-secondary/20 p-1 rounded-xl">
+                          {ALIGN_COMMANDS.map(({ edge, label, Icon }) => (
+                             <button key={edge} onClick={() => alignPieces(edge)} title={label} className="p-2 hover:bg-secondary rounded-lg flex justify-center text-gray-400 hover:text-white transition">
+                                <Icon size={16} />
+                             </button>
+                          ))}
+                       </div>
+                       <div className="flex gap-2">
+                          <button onClick={() => distributePieces('horizontal')} title="Distribute horizontally" className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-secondary/30 hover:bg-secondary rounded-lg transition font-bold text-xs border border-border">
+                             <AlignHorizontalSpaceAround size={14} /> Across
+                          </button>
+                          <button onClick={() => distributePieces('vertical')} title="Distribute vertically" className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-secondary/30 hover:bg-secondary rounded-lg transition font-bold text-xs border border-border">
+                             <AlignVerticalSpaceAround size={14} /> Up
+                          </button>
+                          <label className="flex items-center gap-1 bg-secondary/30 rounded-lg px-2 text-xs text-gray-500 focus-within:ring-2 focus-within:ring-blue-500" title="Gap between pieces">
+                             <input
+                                type="number"
+                                min={0}
+                                step={0.125}
+                                value={distributeGap}
+                                onChange={(e) => setDistributeGap(e.target.value)}
+                                placeholder="Equal"
+                                className="w-14 bg-transparent py-2 text-foreground font-medium outline-none"
+                             />
+                             in
+                          </label>
+                       </div>
+                       <p className="text-[11px] text-gray-500">Applies to the selection, or every piece when nothing is selected. Leave the gap empty to even out the spacing.</p>
+                    </div>
+                 )}
 
                  {/* 4. Fine Tune (Nudge) */}
+                 {canEdit && (
                  <div className="space-y-3">
-                    <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Fine Tune</h3>
+                    <div className="flex items-center justify-between">
+                       <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Fine Tune</h3>
+                       <div className="flex gap-1" title="Arrow keys: Alt for 1/8&quot;, Shift for 1&quot;">
+                          {NUDGE_STEPS.map(step => (
+                             <button
+                                key={step.inches}
+                                onClick={() => setNudgeStep(step.inches)}
+                                className={`px-2 py-0.5 rounded-md text-xs font-bold transition ${nudgeStep === step.inches ? 'bg-blue-900/30 text-blue-400' : 'text-gray-500 hover:text-white'}`}
+                             >
+                                {step.label}
+                             </button>
+                          ))}
+                       </div>
+                    </div>
                     <div className="grid grid-cols-3 gap-2 bg-secondary/20 p-2 rounded-xl">
-                        <div className="col-start-2"><button onClick={() => nudge(0, -10)} className="w-full p-2 hover:bg-secondary rounded-lg flex justify-center"><Move size={14} className="-rotate-90"/></button></div>
-                        <div className="col-start-1 row-start-2"><button onClick={() => nudge(-10, 0)} className="w-full p-2 hover:bg-secondary rounded-lg flex justify-center"><Move size={14} className="rotate-180"/></button></div>
+                        <div className="col-start-2"><button onClick={() => nudge(0, nudgeStep)} className="w-full p-2 hover:bg-secondary rounded-lg flex justify-center"><Move size={14} className="-rotate-90"/></button></div>
+                        <div className="col-start-1 row-start-2"><button onClick={() => nudge(-nudgeStep, 0)} className="w-full p-2 hover:bg-secondary rounded-lg flex justify-center"><Move size={14} className="rotate-180"/></button></div>
                         <div className="col-start-2 row-start-2"><div className="w-full p-2 flex justify-center"><Move size={14} className="text-gray-600"/></div></div>
-                        <div className="col-start-3 row-start-2"><button onClick={() => nudge(10, 0)} className="w-full p-2 hover:bg-secondary rounded-lg flex justify-center"><Move size={14}/></button></div>
-                        <div className="col-start-2 row-start-3"><button onClick={() => nudge(0, 10)} className="w-full p-2 hover:bg-secondary rounded-lg flex justify-center"><Move size={14} className="rotate-90"/></button></div>
+                        <div className="col-start-3 row-start-2"><button onClick={() => nudge(nudgeStep, 0)} className="w-full p-2 hover:bg-secondary rounded-lg flex justify-center"><Move size={14}/></button></div>
+                        <div className="col-start-2 row-start-3"><button onClick={() => nudge(0, -nudgeStep)} className="w-full p-2 hover:bg-secondary rounded-lg flex justify-center"><Move size={14} className="rotate-90"/></button></div>
                     </div>
                  </div>
+                 )}
 
                  <button onClick={downloadGuide} className="w-full py-3 bg-secondary hover:bg-secondary/80 text-foreground font-bold rounded-xl flex items-center justify-center gap-2 transition mt-4">
                     <Download size={18} /> Download Hang Guide (PDF)
@@ -554,6 +1596,20 @@ const VuraApp = () => {
         />
       )}
       
+      {isSessionLoaded && !user && <AuthDialog onSignedIn={setUser} />}
+      {user && draftOffer?.userId === user.id && (
+        <DraftRestoreDialog draft={draftOffer} onRestore={() => restoreDraft(draftOffer)} onDiscard={discardDraft} />
+      )}
+
+      <HistoryDrawer
+         isOpen={showHistory}
+         currentRoomId={roomId}
+         onClose={() => setShowHistory(false)}
+         onOpenRoom={loadRoom}
+         onRoomRenamed={(id, name) => { if (id === roomId) setRoomName(name); }}
+         onRoomDeleted={(id) => { if (id === roomId) { setRoomId(null); setLocalId(crypto.randomUUID()); setProject(null); } }}
+      />
+
       <AlertDialog 
          isOpen={alertState.open} 
          title={alertState.title} 
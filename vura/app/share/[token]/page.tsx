@@ -0,0 +1,53 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getRoomDocument } from '@/app/lib/rooms';
+import { resolveShareToken } from '@/app/lib/shares';
+import WallPreview from '@/app/components/WallPreview';
+
+export const metadata: Metadata = {
+  title: 'Shared Wall · Vura',
+  robots: { index: false },
+};
+
+export default async function SharedRoomPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  const roomId = await resolveShareToken(token);
+  if (roomId === null) notFound();
+
+  const room = await getRoomDocument(roomId);
+  if (!room) notFound();
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-background text-foreground font-sans">
+      <header className="w-full flex justify-between items-center p-4 border-b border-border bg-card/80 backdrop-blur-sm">
+        <h1 className="text-2xl font-bold bg-linear-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">Vura</h1>
+        <span className="text-sm font-medium text-gray-400">{room.name}</span>
+      </header>
+
+      <main className="w-full max-w-6xl flex-1 flex items-center justify-center p-4 md:p-8">
+        {room.wallImageUrl ? (
+          <WallPreview
+            wallImageUrl={room.wallImageUrl}
+            ppi={room.referenceRatioPpi || 0}
+            floorY={room.floorY || 0}
+            imageWidth={room.wallImageWidth}
+            imageHeight={room.wallImageHeight}
+            wallCorners={room.wallCorners}
+            wallAspect={room.wallAspect}
+            pieces={room.artPieces.map(p => ({
+              id: p.id,
+              url: p.imageUrl,
+              x: p.xInches,
+              y: p.yInches,
+              width: p.realWidthInches,
+              height: p.realHeightInches
+            }))}
+          />
+        ) : (
+          <p className="text-gray-500">This room has no wall photo yet.</p>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import {
+  artworkCreateSchema,
+  ArtworkCreatePayload,
+  artworkPatchSchema,
+  ArtworkPatchPayload,
+  artworkRecordSchema,
+} from '../lib/artworkContract';
+import { jsonInit, request } from './roomApi';
+
+/**
+ * Typed client for the art library at /api/artworks. Errors surface as RoomApiError.
+ */
+export const ArtworkApi = {
+  list: (q?: string) =>
+    request(`/api/artworks${q ? `?q=${encodeURIComponent(q)}` : ''}`, z.array(artworkRecordSchema)),
+
+  create: (payload: ArtworkCreatePayload) =>
+    request('/api/artworks', artworkRecordSchema, jsonInit('POST', artworkCreateSchema.parse(payload))),
+
+  update: (artworkId: number, payload: ArtworkPatchPayload) =>
+    request(`/api/artworks/${artworkId}`, artworkRecordSchema, jsonInit('PATCH', artworkPatchSchema.parse(payload))),
+
+  delete: (artworkId: number) =>
+    request(`/api/artworks/${artworkId}`, z.object({ success: z.literal(true) }), { method: 'DELETE' }),
+};
@@ -0,0 +1,34 @@
+/**
+ * Client helpers for moving images into server-side asset storage.
+ * Object URLs (blob:) and inline data: URLs only live as long as the tab,
+ * so they have to be uploaded before they are saved with a room.
+ */
+export const AssetClient = {
+  /**
+   * Uploads an image and returns its stable asset URL.
+   */
+  upload: async (blob: Blob): Promise<string> => {
+    const formData = new FormData();
+    formData.append('file', blob);
+
+    const response = await fetch('/api/assets', { method: 'POST', body: formData });
+    if (!response.ok) throw new Error(`Asset upload failed (${response.status})`);
+
+    const { url } = await response.json();
+    return url;
+  },
+
+  /**
+   * Whether a URL only exists in this browser tab and needs uploading before save.
+   */
+  isTransient: (url: string): boolean => url.startsWith('blob:') || url.startsWith('data:'),
+
+  /**
+   * Returns a URL that will survive a reload, uploading the image if needed.
+   */
+  persist: async (url: string): Promise<string> => {
+    if (!AssetClient.isTransient(url)) return url;
+    const blob = await (await fetch(url)).blob();
+    return AssetClient.upload(blob);
+  }
+};
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { credentialsSchema, Credentials, registerSchema, RegisterPayload, sessionSchema } from '../lib/authContract';
+import { jsonInit, request } from './roomApi';
+
+/**
+ * Typed client for /api/auth. The session lives in an httpOnly cookie, so
+ * these calls only ever return the signed-in user. Errors surface as RoomApiError.
+ */
+export const AuthApi = {
+  session: () =>
+    request('/api/auth/session', sessionSchema),
+
+  login: (credentials: Credentials) =>
+    request('/api/auth/login', sessionSchema, jsonInit('POST', credentialsSchema.parse(credentials))),
+
+  register: (payload: RegisterPayload) =>
+    request('/api/auth/register', sessionSchema, jsonInit('POST', registerSchema.parse(payload))),
+
+  logout: () =>
+    request('/api/auth/logout', z.object({ success: z.literal(true) }), { method: 'POST' }),
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CalibrationFit } from './calibrationFit';
+
+// References drawn on a photo where an inch is 8px across and 6px up
+const across = (x: number, y: number, inches: number) => ({ start: { x, y }, end: { x: x + inches * 8, y }, inches });
+const up = (x: number, y: number, inches: number) => ({ start: { x, y }, end: { x, y: y + inches * 6 }, inches });
+
+describe('CalibrationFit.fit', () => {
+  it('has nothing to fit without a usable reference', () => {
+    expect(CalibrationFit.fit([])).toBeNull();
+    expect(CalibrationFit.fit([{ ...across(0, 0, 10), inches: 0 }])).toBeNull();
+  });
+
+  it('takes the scale of a single reference, with no error estimate', () => {
+    const fit = CalibrationFit.fit([across(0, 0, 30)]);
+    expect(fit?.ppi).toBeCloseTo(8, 9);
+    expect(fit?.verticalPpi).toBeNull();
+    expect(fit?.errorInches).toBeNull();
+  });
+
+  it('pools references that all run one way', () => {
+    const fit = CalibrationFit.fit([across(0, 0, 30), { ...across(0, 100, 20), inches: 21 }]);
+    expect(fit?.verticalPpi).toBeNull();
+    expect(fit?.residuals[0]).toBeGreaterThan(0);
+    expect(fit?.residuals[1]).toBeLessThan(0);
+    expect(fit?.errorInches).toBeGreaterThan(0.5);
+  });
+
+  it('fits each direction its own scale', () => {
+    const fit = CalibrationFit.fit([across(0, 0, 30), up(300, 0, 30)]);
+    expect(fit?.ppi).toBeCloseTo(8, 9);
+    expect(fit?.verticalPpi).toBeCloseTo(6, 9);
+    expect(fit?.residuals.every(r => Math.abs(r) < 1e-9)).toBe(true);
+    // Both scales took one reference each, none is left over to check them
+    expect(fit?.errorInches).toBeNull();
+  });
+
+  it('reports about no error for exact references in both directions', () => {
+    const fit = CalibrationFit.fit([across(0, 0, 30), across(0, 200, 45), up(300, 0, 30), up(400, 0, 80)]);
+    expect(fit?.errorInches).toBeCloseTo(0, 9);
+    expect(fit?.axisErrorInches.horizontal).toBeCloseTo(0, 9);
+    expect(fit?.axisErrorInches.vertical).toBeCloseTo(0, 9);
+  });
+
+  it('puts the error on the direction of the reference that is off', () => {
+    const fit = CalibrationFit.fit([across(0, 0, 30), { ...across(0, 200, 45), inches: 46 }, up(300, 0, 30), up(400, 0, 80)]);
+    expect(fit?.axisErrorInches.horizontal).toBeGreaterThan(0.5);
+    expect(fit?.axisErrorInches.vertical).toBeCloseTo(0, 9);
+  });
+
+  it('measures references after mapping them onto the wall', () => {
+    const fit = CalibrationFit.fit([across(0, 0, 30)], point => ({ x: point.x / 2, y: point.y / 2 }));
+    expect(fit?.ppi).toBeCloseTo(4, 9);
+  });
+});
@@ -0,0 +1,86 @@
+import type { Point } from './perspectiveCorrection';
+
+/**
+ * A known length marked on the wall photo: a door height, a switch plate, a strip of tape.
+ */
+export interface ReferenceMeasurement {
+  start: Point;
+  end: Point;
+  inches: number;
+}
+
+export interface ScaleFit {
+  /** Pixels per inch across the wall that best explains every reference. */
+  ppi: number;
+  /** Pixels per inch up the wall, when references run both ways. Null when they all run one way and share `ppi`. */
+  verticalPpi: number | null;
+  /** How far off each reference measures at that scale, in inches (positive when it measures long). */
+  residuals: number[];
+  /** Typical error of a measurement at that scale, in inches. Null when no reference is left over to check the scale with. */
+  errorInches: number | null;
+  /** The same from only the references that run mostly across, or mostly up, the wall. */
+  axisErrorInches: { horizontal: number | null; vertical: number | null };
+}
+
+// RMS of the residuals, less the degrees of freedom that went into the scales
+const typicalError = (residuals: number[], scales: number) =>
+  residuals.length > scales ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (residuals.length - scales)) : null;
+
+export const CalibrationFit = {
+  /**
+   * Least-squares scale for several references. Each is measured after `toWall`, so on the rectified
+   * wall a reference at the far end of an angled wall counts as much as one close to the camera.
+   * When references run both across and up the wall each direction gets its own scale, which measures
+   * the wall's proportions rather than trusting the rectified ones.
+   * Long references weigh more, since a misplaced end point matters less to them.
+   * @param toWall Maps photo points to the pixels the scale is wanted in.
+   */
+  fit: (references: ReferenceMeasurement[], toWall: (point: Point) => Point = point => point): ScaleFit | null => {
+    const usable = references.filter(r => r.inches > 0);
+    if (usable.length === 0) return null;
+
+    const spans = usable.map(r => {
+      const start = toWall(r.start);
+      const end = toWall(r.end);
+      return { dx: end.x - start.x, dy: end.y - start.y, inches: r.inches };
+    });
+    const across = spans.map(s => Math.abs(s.dx) >= Math.abs(s.dy));
+
+    let ppi: number;
+    let verticalPpi: number | null = null;
+    if (across.includes(true) && across.includes(false)) {
+      // inches² = dx² / ppi² + dy² / verticalPpi² is linear in 1 / ppi² and 1 / verticalPpi².
+      // Each row is divided by its inches, so a misplaced end point costs about as much on any reference.
+      let xx = 0, xy = 0, yy = 0, xl = 0, yl = 0;
+      spans.forEach(({ dx, dy, inches }) => {
+        const [a, b] = [dx * dx / inches, dy * dy / inches];
+        xx += a * a; xy += a * b; yy += b * b; xl += a * inches; yl += b * inches;
+      });
+      const det = xx * yy - xy * xy;
+      const u = (yy * xl - xy * yl) / det;
+      const v = (xx * yl - xy * xl) / det;
+      if (!(u > 0 && v > 0)) return null;
+      ppi = 1 / Math.sqrt(u);
+      verticalPpi = 1 / Math.sqrt(v);
+    } else {
+      const lengths = spans.map(s => Math.hypot(s.dx, s.dy));
+      // Minimizes Σ (length - ppi · inches)²
+      ppi = lengths.reduce((sum, length, i) => sum + length * spans[i].inches, 0)
+        / spans.reduce((sum, s) => sum + s.inches * s.inches, 0);
+      if (!(ppi > 0)) return null;
+    }
+
+    const upPpi = verticalPpi ?? ppi;
+    const residuals = spans.map(s => Math.hypot(s.dx / ppi, s.dy / upPpi) - s.inches);
+    return {
+      ppi,
+      verticalPpi,
+      residuals,
+      errorInches: typicalError(residuals, verticalPpi === null ? 1 : 2),
+      axisErrorInches: {
+        horizontal: typicalError(residuals.filter((_, i) => across[i]), 1),
+        vertical: typicalError(residuals.filter((_, i) => !across[i]), 1),
+      },
+    };
+  },
+};
@@ -0,0 +1,212 @@
+import type { WallCorners } from './perspectiveCorrection';
+import type { LivePiece } from '../lib/collabContract';
+import { AssetClient } from './assetClient';
+import { RoomApi, RoomApiError } from './roomApi';
+
+/**
+ * Everything needed to bring the editor back after a reload.
+ */
+export interface EditorDocument {
+  roomId: number | null;
+  // Tells unsaved rooms apart until they get a room id, made up when the editor starts one
+  localId: string;
+  roomName: string;
+  wallImage: string | null;
+  ppi: number;
+  floorY: number;
+  wallCorners: WallCorners | null;
+  calibrationErrorInches: number | null;
+  wallAspect: number | null;
+  wallDimensions: { width: number; height: number };
+  artPieces: LivePiece[];
+}
+
+export interface EditorDraft extends EditorDocument {
+  // Account the draft was made under, it is only offered back to the same account
+  userId: number;
+  savedAt: number;
+  // True when the draft holds changes the server doesn't have
+  dirty: boolean;
+}
+
+// Tab-local images (blob: and data: URLs) travel with the draft as bytes, keyed by their URL at save time.
+// fromWallCorner is missing on drafts and queued saves from before x ran from the wall corner.
+type StoredDraft = EditorDraft & { key: string; blobs: Record<string, Blob>; fromWallCorner?: boolean };
+
+export type SyncResult =
+  // localId is set when the save created the room
+  | { status: 'synced'; key: string; roomId: number; roomName: string; localId: string | null }
+  | { status: 'rejected'; key: string; roomName: string; message: string };
+
+const DB_NAME = 'vura';
+const DB_VERSION = 1;
+const DRAFTS = 'drafts';
+const OUTBOX = 'outbox';
+const CURRENT_DRAFT = 'current';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DRAFTS, { keyPath: 'key' });
+      request.result.createObjectStore(OUTBOX, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+async function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Object URLs never change their bytes, so each is read once per tab
+const blobCache = new Map<string, Blob>();
+
+async function collectBlobs(doc: EditorDocument): Promise<Record<string, Blob>> {
+  const urls = [doc.wallImage, ...doc.artPieces.map(p => p.url)]
+    .filter((url): url is string => !!url && AssetClient.isTransient(url));
+
+  const blobs: Record<string, Blob> = {};
+  for (const url of new Set(urls)) {
+    let blob = blobCache.get(url);
+    if (!blob) {
+      blob = await (await fetch(url)).blob();
+      blobCache.set(url, blob);
+    }
+    blobs[url] = blob;
+  }
+  return blobs;
+}
+
+// Swaps every stored image URL through a mapping, keeping the URLs it doesn't know
+function mapImages<T extends EditorDocument>(doc: T, urls: Record<string, string>): T {
+  const map = (url: string) => urls[url] ?? url;
+  return {
+    ...doc,
+    wallImage: doc.wallImage && map(doc.wallImage),
+    artPieces: doc.artPieces.map(p => ({ ...p, url: map(p.url) })),
+  };
+}
+
+// Older drafts measured x from the photo's left edge, which is left of the wall corner
+function measureFromWallCorner<T extends EditorDocument>(doc: T, fromWallCorner = false): T {
+  if (fromWallCorner || !doc.wallCorners) return doc;
+  const ppi = doc.ppi || (doc.wallDimensions.height ? doc.wallDimensions.height / 96 : 10);
+  const offset = doc.wallCorners.tl.x / ppi;
+  return { ...doc, artPieces: doc.artPieces.map(p => ({ ...p, x: p.x - offset })) };
+}
+
+function toDraft({ blobs, fromWallCorner, ...draft }: StoredDraft): EditorDraft {
+  // The old object URLs died with their tab, fresh ones point at the stored bytes
+  const urls = Object.fromEntries(Object.entries(blobs).map(([url, blob]) => [url, URL.createObjectURL(blob)]));
+  Object.entries(urls).forEach(([url, fresh]) => blobCache.set(fresh, blobs[url]));
+  // Drafts written before groups and locks existed
+  const artPieces = draft.artPieces.map(p => ({ ...p, groupName: p.groupName ?? null, locked: p.locked ?? false }));
+  // ...and before calibration error estimates and measured wall proportions
+  const calibrationErrorInches = draft.calibrationErrorInches ?? null;
+  const wallAspect = draft.wallAspect ?? null;
+  // ...and before unsaved rooms had an id of their own
+  const localId = draft.localId ?? crypto.randomUUID();
+  return mapImages(measureFromWallCorner({ ...draft, artPieces, calibrationErrorInches, wallAspect, localId }, fromWallCorner), urls);
+}
+
+// One queued save per room and account: saving the same room again replaces it, other rooms and accounts never do
+const outboxKey = (doc: EditorDocument, userId: number) =>
+  `user-${userId}:${doc.roomId === null ? `new-${doc.localId}` : `room-${doc.roomId}`}`;
+
+/**
+ * A string that changes whenever the document's content does, to tell a draft from the saved room.
+ */
+export function documentSignature(doc: Omit<EditorDocument, 'localId'>): string {
+  const pieces = doc.artPieces.map(({ id, artworkId, url, x, y, width, height, groupName, locked }) => [id, artworkId, url, x, y, width, height, groupName, locked]);
+  return JSON.stringify([
+    doc.roomId, doc.roomName, doc.wallImage, doc.ppi, doc.floorY, doc.wallCorners, doc.calibrationErrorInches, doc.wallAspect,
+    doc.wallDimensions.width, doc.wallDimensions.height, pieces,
+  ]);
+}
+
+/**
+ * Crash-safe local copy of the editor, kept in IndexedDB with its images,
+ * and an outbox of saves made while the server was unreachable.
+ */
+export const DraftStore = {
+  save: async (draft: EditorDraft) => {
+    const stored: StoredDraft = { ...draft, key: CURRENT_DRAFT, blobs: await collectBlobs(draft), fromWallCorner: true };
+    await run(DRAFTS, 'readwrite', store => store.put(stored));
+  },
+
+  load: async (): Promise<EditorDraft | null> => {
+    const stored = await run<StoredDraft | undefined>(DRAFTS, 'readonly', store => store.get(CURRENT_DRAFT));
+    return stored ? toDraft(stored) : null;
+  },
+
+  clear: async () => {
+    await run(DRAFTS, 'readwrite', store => store.delete(CURRENT_DRAFT));
+  },
+
+  /**
+   * Queues a save for when the server is reachable again. A later save of the same room replaces the queued one.
+   */
+  enqueue: async (doc: EditorDocument, userId: number) => {
+    const stored: StoredDraft = {
+      ...doc, key: outboxKey(doc, userId), userId, savedAt: Date.now(), dirty: true, blobs: await collectBlobs(doc), fromWallCorner: true,
+    };
+    await run(OUTBOX, 'readwrite', store => store.put(stored));
+  },
+
+  pendingCount: async (userId: number) => {
+    const queued = await run<StoredDraft[]>(OUTBOX, 'readonly', store => store.getAll());
+    return queued.filter(entry => entry.userId === userId).length;
+  },
+
+  /**
+   * Sends a user's queued saves to /api/room, oldest first. Stops at the first network
+   * failure or expired session and leaves the rest queued for the next attempt.
+   * Saves the server refuses (validation, permissions) are dropped and reported.
+   */
+  flush: async (userId: number): Promise<SyncResult[]> => {
+    const queued = await run<StoredDraft[]>(OUTBOX, 'readonly', store => store.getAll());
+    const results: SyncResult[] = [];
+
+    for (const entry of queued.filter(e => e.userId === userId).sort((a, b) => a.savedAt - b.savedAt)) {
+      try {
+        const uploaded: Record<string, string> = {};
+        for (const [url, blob] of Object.entries(entry.blobs)) {
+          uploaded[url] = await AssetClient.upload(blob);
+        }
+        const doc = mapImages(measureFromWallCorner(entry, entry.fromWallCorner), uploaded);
+        const payload = {
+          name: doc.roomName,
+          wallImageUrl: doc.wallImage,
+          ratio: doc.ppi,
+          floorY: doc.floorY,
+          wallCorners: doc.wallCorners,
+          calibrationErrorInches: doc.calibrationErrorInches,
+          wallAspect: doc.wallAspect,
+          wallImageWidth: doc.wallDimensions.width || null,
+          wallImageHeight: doc.wallDimensions.height || null,
+          artPieces: doc.artPieces.map(({ artworkId, url, x, y, width, height, groupName, locked }) => ({ artworkId, url, x, y, width, height, groupName, locked })),
+        };
+        const result = doc.roomId ? await RoomApi.update(doc.roomId, payload) : await RoomApi.create(payload);
+        results.push({ status: 'synced', key: entry.key, roomId: result.roomId, roomName: doc.roomName, localId: doc.roomId ? null : doc.localId });
+      } catch (err) {
+        if (!(err instanceof RoomApiError) || err.status === 401) break;
+        results.push({ status: 'rejected', key: entry.key, roomName: entry.roomName, message: err.message });
+      }
+      await run(OUTBOX, 'readwrite', store => store.delete(entry.key));
+    }
+    return results;
+  },
+};
@@ -0,0 +1,83 @@
+import { applyPieceOps, LivePiece } from '../lib/collabContract';
+import { diffPieces } from './liveSession';
+import type { WallCorners } from './perspectiveCorrection';
+
+/**
+ * The part of the editor that undo and redo cover: the placements and the calibration.
+ */
+export interface WallEditState<T extends LivePiece = LivePiece> {
+  pieces: T[];
+  ppi: number;
+  floorY: number;
+  wallCorners: WallCorners | null;
+  calibrationErrorInches: number | null;
+  wallAspect: number | null;
+}
+
+export interface HistoryEntry<T extends LivePiece = LivePiece> {
+  label: string;
+  before: WallEditState<T>;
+  after: WallEditState<T>;
+  // Edits with the same key in quick succession merge into one step, e.g. the moves of one drag
+  coalesceKey: string | null;
+  at: number;
+}
+
+export interface EditHistoryState<T extends LivePiece = LivePiece> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+const MAX_STEPS = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+export const EMPTY_HISTORY: EditHistoryState<never> = { past: [], future: [] };
+
+/**
+ * Replays the part of an edit that goes from one state to another onto the current state.
+ * Only the pieces and calibration values the edit touched change, so undoing
+ * never reverts what a collaborator did in the meantime.
+ */
+function replay<T extends LivePiece>(current: WallEditState<T>, from: WallEditState<T>, to: WallEditState<T>): WallEditState<T> {
+  return {
+    pieces: applyPieceOps(current.pieces, diffPieces(from.pieces, to.pieces)),
+    ppi: from.ppi !== to.ppi ? to.ppi : current.ppi,
+    floorY: from.floorY !== to.floorY ? to.floorY : current.floorY,
+    wallCorners: from.wallCorners !== to.wallCorners ? to.wallCorners : current.wallCorners,
+    calibrationErrorInches: from.calibrationErrorInches !== to.calibrationErrorInches ? to.calibrationErrorInches : current.calibrationErrorInches,
+    wallAspect: from.wallAspect !== to.wallAspect ? to.wallAspect : current.wallAspect,
+  };
+}
+
+/**
+ * Undo/redo stacks as immutable values, to be kept in React state.
+ * Each entry remembers the state before and after an edit.
+ */
+export const EditHistory = {
+  record: <T extends LivePiece>(history: EditHistoryState<T>, entry: Omit<HistoryEntry<T>, 'at'>, now = Date.now()): EditHistoryState<T> => {
+    const last = history.past[history.past.length - 1];
+    if (last && entry.coalesceKey && last.coalesceKey === entry.coalesceKey && now - last.at < COALESCE_WINDOW_MS) {
+      const merged = { ...last, after: entry.after, at: now };
+      return { past: [...history.past.slice(0, -1), merged], future: [] };
+    }
+    return { past: [...history.past, { ...entry, at: now }].slice(-MAX_STEPS), future: [] };
+  },
+
+  undo: <T extends LivePiece>(history: EditHistoryState<T>, current: WallEditState<T>) => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return null;
+    return {
+      history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+      state: replay(current, entry.after, entry.before),
+    };
+  },
+
+  redo: <T extends LivePiece>(history: EditHistoryState<T>, current: WallEditState<T>) => {
+    const entry = history.future[0];
+    if (!entry) return null;
+    return {
+      history: { past: [...history.past, entry], future: history.future.slice(1) },
+      state: replay(current, entry.before, entry.after),
+    };
+  },
+};
@@ -0,0 +1,108 @@
+import { HomographyError, PerspectiveTransformer, WallCorners } from './perspectiveCorrection';
+
+/**
+ * The rectified "flat wall": the wall photo dewarped with its calibrated corners into a frontal,
+ * orthographic picture, in which an inch is the same number of pixels everywhere.
+ */
+
+// Longest side of the rectified picture; bigger photos are sampled down to keep the dewarp quick
+const MAX_SIDE = 2048;
+
+export class FlatWallError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FlatWallError';
+  }
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new FlatWallError("The wall photo couldn't be loaded."));
+    image.src = url;
+  });
+}
+
+function readPixels(image: HTMLImageElement): ImageData {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) throw new FlatWallError('Your browser cannot draw the flat wall.');
+  context.drawImage(image, 0, 0);
+  try {
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+  } catch {
+    // A photo served without CORS headers taints the canvas
+    throw new FlatWallError("The wall photo can't be read to straighten it.");
+  }
+}
+
+// Bilinear sample of the source at (x, y), written to target at offset
+function sample(source: ImageData, x: number, y: number, target: Uint8ClampedArray, offset: number) {
+  const { width, height, data } = source;
+  const fx = x - 0.5;
+  const fy = y - 0.5;
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  // Outside the photo stays transparent
+  if (x0 < -1 || y0 < -1 || x0 >= width || y0 >= height) return;
+
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const clampX = (v: number) => Math.min(width - 1, Math.max(0, v));
+  const clampY = (v: number) => Math.min(height - 1, Math.max(0, v));
+  const i00 = (clampY(y0) * width + clampX(x0)) * 4;
+  const i10 = (clampY(y0) * width + clampX(x0 + 1)) * 4;
+  const i01 = (clampY(y0 + 1) * width + clampX(x0)) * 4;
+  const i11 = (clampY(y0 + 1) * width + clampX(x0 + 1)) * 4;
+  for (let c = 0; c < 4; c++) {
+    const top = data[i00 + c] * (1 - tx) + data[i10 + c] * tx;
+    const bottom = data[i01 + c] * (1 - tx) + data[i11 + c] * tx;
+    target[offset + c] = top * (1 - ty) + bottom * ty;
+  }
+}
+
+export const FlatWall = {
+  /**
+   * Dewarps a wall photo into the flat frame of `PerspectiveTransformer.forWall`. The result has the photo's
+   * aspect ratio, and its point (x, y) shows what flat coordinates (x, y) stand for, so placements laid out
+   * on the flat wall line up with it without any transform.
+   * @param wallAspect The wall's measured proportions, as the room stores them.
+   * @returns A blob URL of the picture, to be revoked by the caller.
+   */
+  render: async (imageUrl: string, corners: WallCorners, wallAspect: number | null = null): Promise<string> => {
+    const source = readPixels(await loadImage(imageUrl));
+    // Same frame as the layout's WallSpace, which sizes it with the intrinsic photo
+    let wall: PerspectiveTransformer;
+    try {
+      wall = PerspectiveTransformer.forWall(corners, source, wallAspect);
+    } catch (err) {
+      if (err instanceof HomographyError) throw new FlatWallError('The wall corners do not outline a wall. Calibrate again to set them.');
+      throw err;
+    }
+
+    const factor = Math.min(1, MAX_SIDE / Math.max(source.width, source.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(source.width * factor);
+    canvas.height = Math.round(source.height * factor);
+    const context = canvas.getContext('2d');
+    if (!context) throw new FlatWallError('Your browser cannot draw the flat wall.');
+
+    // Every pixel of the flat picture is looked up where it lies on the photo
+    const target = context.createImageData(canvas.width, canvas.height);
+    for (let y = 0; y < canvas.height; y++) {
+      for (let x = 0; x < canvas.width; x++) {
+        const point = wall.toDistorted((x + 0.5) / factor, (y + 0.5) / factor);
+        sample(source, point.x, point.y, target.data, (y * canvas.width + x) * 4);
+      }
+    }
+    context.putImageData(target, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new FlatWallError('Your browser cannot draw the flat wall.');
+    return URL.createObjectURL(blob);
+  },
+};
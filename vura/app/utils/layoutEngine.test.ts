@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { LayoutEngine } from './layoutEngine';
+
+const pieces = [
+  { id: 1, x: 10, y: 40, width: 20, height: 10 },
+  { id: 2, x: 50, y: 30, width: 10, height: 30 },
+  { id: 3, x: 35, y: 45, width: 5, height: 20 },
+];
+
+describe('LayoutEngine.align', () => {
+  it('lines pieces up on the edges of their own bounds', () => {
+    expect(LayoutEngine.align(pieces, 'left').map(p => p.x)).toEqual([10, 10, 10]);
+    expect(LayoutEngine.align(pieces, 'right').map(p => p.x + p.width)).toEqual([60, 60, 60]);
+    expect(LayoutEngine.align(pieces, 'bottom').map(p => p.y)).toEqual([30, 30, 30]);
+    expect(LayoutEngine.align(pieces, 'top').map(p => p.y + p.height)).toEqual([65, 65, 65]);
+  });
+
+  it('centers pieces on the middle of the bounds', () => {
+    expect(LayoutEngine.align(pieces, 'center-x').map(p => p.x + p.width / 2)).toEqual([35, 35, 35]);
+    expect(LayoutEngine.align(pieces, 'center-y').map(p => p.y + p.height / 2)).toEqual([47.5, 47.5, 47.5]);
+  });
+
+  it('aligns to given bounds and leaves the other axis alone', () => {
+    const aligned = LayoutEngine.align(pieces, 'left', { x: 0, y: 0, width: 120, height: 96 });
+    expect(aligned.map(p => p.x)).toEqual([0, 0, 0]);
+    expect(aligned.map(p => p.y)).toEqual(pieces.map(p => p.y));
+    expect(aligned.map(p => p.id)).toEqual([1, 2, 3]);
+  });
+
+  it('moves a block by the box around it', () => {
+    const grouped = pieces.map(p => ({ ...p, group: p.id === 3 ? null : 'pair' }));
+    const aligned = LayoutEngine.align(grouped, 'left', undefined, p => p.group);
+    expect(aligned.map(p => p.x)).toEqual([10, 50, 10]);
+    expect(LayoutEngine.align(grouped, 'right', undefined, p => p.group).map(p => p.x)).toEqual([10, 50, 55]);
+  });
+});
+
+describe('LayoutEngine.distribute', () => {
+  it('evens out the gaps between the outermost pieces', () => {
+    const spread = LayoutEngine.distribute(pieces, 'horizontal');
+    // 50" span less 35" of pieces leaves two 7.5" gaps, in order left to right: 1, 3, 2
+    expect(spread.map(p => p.x)).toEqual([10, 50, 37.5]);
+    expect(spread.map(p => p.id)).toEqual([1, 2, 3]);
+  });
+
+  it('packs pieces from the lowest one with a fixed gap', () => {
+    const stacked = LayoutEngine.distribute(pieces, 'vertical', 2);
+    // Order bottom to top: 2, 1, 3
+    expect(stacked.map(p => p.y)).toEqual([62, 30, 74]);
+    expect(stacked.map(p => p.x)).toEqual(pieces.map(p => p.x));
+  });
+
+  it('spaces a block as one box', () => {
+    const grouped = pieces.map(p => ({ ...p, group: p.id === 3 ? null : 'pair' }));
+    // The pair spans 10" to 60", so the lone piece goes 10" past it with the gap
+    const spread = LayoutEngine.distribute(grouped, 'horizontal', 10, [], p => p.group);
+    expect(spread.map(p => p.x)).toEqual([10, 50, 70]);
+  });
+
+  it('spaces pieces around anchors without moving them', () => {
+    const row = [
+      { id: 1, x: 0, y: 0, width: 10, height: 10 },
+      { id: 2, x: 12, y: 0, width: 10, height: 10 },
+      { id: 3, x: 90, y: 0, width: 10, height: 10 },
+    ];
+    const anchor = { x: 30, y: 0, width: 20, height: 10 };
+    // Equal gaps between the first piece and the anchor, then between the anchor and the last piece
+    expect(LayoutEngine.distribute(row, 'horizontal', undefined, [anchor]).map(p => p.x)).toEqual([0, 15, 90]);
+    // Packed with a gap, a piece that would come closer to the anchor than the gap goes on past it
+    expect(LayoutEngine.distribute(row, 'horizontal', 5, [anchor]).map(p => p.x)).toEqual([0, 15, 55]);
+    expect(LayoutEngine.distribute(row, 'horizontal', 15, [anchor]).map(p => p.x)).toEqual([0, 65, 90]);
+  });
+
+  it('leaves a single piece where it is', () => {
+    expect(LayoutEngine.distribute([pieces[0]], 'horizontal')).toEqual([pieces[0]]);
+  });
+});
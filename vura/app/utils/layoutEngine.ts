@@ -1,3 +1,9 @@
+import type { WallRect } from './wallSpace';
+
+// Edge or center line that align moves items onto. Top and bottom follow wall space, where y grows upwards.
+export type AlignEdge = 'left' | 'right' | 'center-x' | 'top' | 'bottom' | 'center-y';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
 export class LayoutEngine {
   /**
    * Calculates the pixel-to-inch ratio based on a user-defined reference.
@@ -25,25 +31,23 @@ export class LayoutEngine {
   }
 
   /**
-   * AI Logic: Calculates the ideal center point for art.
+   * AI Logic: Calculates the ideal center point for art, in wall-space inches.
    * Rule: Centered horizontally over anchor.
-   * Rule: Bottom of Art Group should be ~8 inches above Top of Anchor (Hang Zone).
+   * Rule: Bottom of Art Group should be ~10 inches above Top of Anchor (Hang Zone).
    * Note: This returns the center X and center Y for the *group*.
+   * @param anchor Anchor furniture in wall space (y is its bottom edge above the floor).
+   * @param groupHeight Height of the art group in inches.
    */
-  static calculateAIHangPoint(
-      anchor: any, 
-      ppi: number, 
-      groupHeightPx: number
-  ): { x: number, y: number } {
-      const anchorCenter = anchor.bbox.x + (anchor.bbox.width / 2);
-      const gapPx = this.inchesToPixels(10, ppi); // 10 inch gap (Smart Anchor)
-      
-      // Top of anchor is its y (since y grows down? No, y is usually top-left).
-      // If bbox.y is top of object, then we want to be above it.
-      // So Target Bottom of Art = Anchor.bbox.y - gapPx.
-      // Center Y of Art = Target Bottom - (GroupHeight / 2).
-      const targetCenterY = (anchor.bbox.y - gapPx) - (groupHeightPx / 2);
-      
+  static calculateAIHangPoint(anchor: WallRect, groupHeight: number): { x: number, y: number } {
+      const anchorCenter = anchor.x + (anchor.width / 2);
+      const gap = 10; // 10 inch gap (Smart Anchor)
+
+      // Wall space grows upwards from the floor, so the top of the anchor is y + height.
+      // Target Bottom of Art = Anchor Top + gap.
+      // Center Y of Art = Target Bottom + (GroupHeight / 2).
+      const anchorTop = anchor.y + anchor.height;
+      const targetCenterY = anchorTop + gap + (groupHeight / 2);
+
       return { x: anchorCenter, y: targetCenterY };
   }
 
@@ -253,12 +257,38 @@ export class LayoutEngine {
   }
 
   /**
-   * Applies a named template layout to the art pieces.
-   * @param items Art pieces to arrange.
-   * @param templateName Name of the template ('row', 'grid', 'big-left', 'big-right', 'stairs', 'spiral').
+   * Applies a named template layout to art pieces placed in wall space.
+   * @param items Art pieces in wall-space inches (y is the bottom edge above the floor).
+   * @param templateName Name of the template ('row', 'grid', 'big-left', 'big-right', 'big-center', 'stairs').
+   * @param config All in inches: startX, startY (top edge of the group above the floor), gapInches, wallWidth.
+   */
+  static applyTemplate<T extends WallRect>(
+      items: T[],
+      templateName: string,
+      config: { startX: number; startY: number; gapInches: number; wallWidth?: number }
+  ): T[] {
+      // The templates build top-down like a screen, so run them on a mirrored copy
+      // (1 unit = 1 inch) and mirror the result back into floor-up wall space.
+      const arranged = this.applyTopDownTemplate(this.mirrorVertically(items), templateName, {
+          ...config,
+          startY: -config.startY,
+          ppi: 1
+      });
+      return this.mirrorVertically(arranged as T[]);
+  }
+
+  /**
+   * Flips rectangles between floor-up wall space and a top-down frame. Applying it twice is a no-op.
+   */
+  private static mirrorVertically<T extends WallRect>(items: T[]): T[] {
+      return items.map(item => ({ ...item, y: -(item.y + item.height) }));
+  }
+
+  /**
+   * Template layouts in a top-down frame (y grows downwards, startY is the top edge).
    * @param config Configuration object { startX, startY, gapInches, ppi, wallWidth }.
    */
-  static applyTemplate(
+  private static applyTopDownTemplate(
       items: any[], 
       templateName: string, 
       config: { startX: number; startY: number; gapInches: number; ppi: number; wallWidth?: number }
@@ -386,4 +416,132 @@ export class LayoutEngine {
       }
       return updated;
   }
+
+  /**
+   * Bounding box of a set of rectangles.
+   */
+  static bounds(items: WallRect[]): WallRect {
+    const minX = Math.min(...items.map(item => item.x));
+    const minY = Math.min(...items.map(item => item.y));
+    const maxX = Math.max(...items.map(item => item.x + item.width));
+    const maxY = Math.max(...items.map(item => item.y + item.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+
+  /**
+   * Lines items up on an edge or center line of a box, in wall-space inches.
+   * Items of one block move together by the box around them, keeping their arrangement.
+   * @param bounds Box to align to, the items' own bounding box by default.
+   * @param blockOf Key of the block an item belongs to, null for an item on its own.
+   * @returns The items in their original order.
+   */
+  static align<T extends WallRect>(
+    items: T[],
+    edge: AlignEdge,
+    bounds: WallRect = LayoutEngine.bounds(items),
+    blockOf: (item: T) => string | null = () => null
+  ): T[] {
+    const moved = new Map<T, T>();
+    for (const block of LayoutEngine.blocks(items, blockOf)) {
+      const box = LayoutEngine.bounds(block);
+      const offset = (() => {
+        switch (edge) {
+          case 'left': return { x: bounds.x - box.x, y: 0 };
+          case 'right': return { x: bounds.x + bounds.width - box.x - box.width, y: 0 };
+          case 'center-x': return { x: bounds.x + (bounds.width - box.width) / 2 - box.x, y: 0 };
+          case 'bottom': return { x: 0, y: bounds.y - box.y };
+          case 'top': return { x: 0, y: bounds.y + bounds.height - box.y - box.height };
+          case 'center-y': return { x: 0, y: bounds.y + (bounds.height - box.height) / 2 - box.y };
+        }
+      })();
+      block.forEach(item => moved.set(item, { ...item, x: item.x + offset.x, y: item.y + offset.y }));
+    }
+    return items.map(item => moved.get(item)!);
+  }
+
+  /**
+   * Spaces items along one axis, keeping their order along it. Each block is spaced as one box,
+   * and anchors take their place in the order without moving.
+   * Without a gap the outermost boxes and the anchors stay where they are and the gaps between each two of them become equal.
+   * With a gap the boxes are packed from the first one (leftmost, or lowest for vertical) with exactly that gap,
+   * going on past any anchor a box would run into.
+   * @param gapInches Fixed gap in inches.
+   * @param anchors Boxes that stay put and that nothing is spaced onto, like locked pieces.
+   * @param blockOf Key of the block an item belongs to, null for an item on its own.
+   * @returns The items in their original order.
+   */
+  static distribute<T extends WallRect>(
+    items: T[],
+    axis: DistributeAxis,
+    gapInches?: number,
+    anchors: WallRect[] = [],
+    blockOf: (item: T) => string | null = () => null
+  ): T[] {
+    const start = (box: WallRect) => (axis === 'horizontal' ? box.x : box.y);
+    const size = (box: WallRect) => (axis === 'horizontal' ? box.width : box.height);
+
+    // Anchors have no items to move
+    const boxes = [
+      ...LayoutEngine.blocks(items, blockOf).map(block => ({ box: LayoutEngine.bounds(block), block })),
+      ...anchors.map(box => ({ box, block: null })),
+    ].sort((a, b) => start(a.box) - start(b.box));
+    if (boxes.length < 2) return items;
+
+    const placed = new Map<T[], number>();
+    if (gapInches === undefined) {
+      let fixed = 0;
+      for (let next = 1; next < boxes.length; next++) {
+        if (boxes[next].block && next < boxes.length - 1) continue;
+        const from = boxes[fixed].box;
+        const between = boxes.slice(fixed + 1, next);
+        const room = start(boxes[next].box) - start(from) - size(from) - between.reduce((sum, { box }) => sum + size(box), 0);
+        const gap = room / (between.length + 1);
+        let cursor = start(from) + size(from) + gap;
+        for (const { box, block } of between) {
+          placed.set(block!, cursor);
+          cursor += size(box) + gap;
+        }
+        fixed = next;
+      }
+    } else {
+      const gap = gapInches;
+      const stops = boxes.filter(({ block }) => !block).map(({ box }) => box);
+      let cursor = start(boxes[0].box);
+      for (const { box, block } of boxes) {
+        if (!block) continue;
+        let at = cursor;
+        for (const stop of stops) {
+          if (at < start(stop) + size(stop) + gap && start(stop) < at + size(box) + gap) at = start(stop) + size(stop) + gap;
+        }
+        placed.set(block, at);
+        cursor = at + size(box) + gap;
+      }
+    }
+
+    const moved = new Map<T, T>();
+    for (const [block, position] of placed) {
+      const shift = position - start(LayoutEngine.bounds(block));
+      block.forEach(item => moved.set(item, axis === 'horizontal' ? { ...item, x: item.x + shift } : { ...item, y: item.y + shift }));
+    }
+    return items.map(item => moved.get(item) ?? item);
+  }
+
+  /**
+   * Splits items into the blocks that move as one, in order of their first item.
+   */
+  private static blocks<T>(items: T[], blockOf: (item: T) => string | null): T[][] {
+    const blocks: T[][] = [];
+    const byKey = new Map<string, T[]>();
+    for (const item of items) {
+      const key = blockOf(item);
+      const block = key === null ? undefined : byKey.get(key);
+      if (block) {
+        block.push(item);
+        continue;
+      }
+      blocks.push([item]);
+      if (key !== null) byKey.set(key, blocks[blocks.length - 1]);
+    }
+    return blocks;
+  }
 }
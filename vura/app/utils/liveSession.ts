@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import {
+  applyPieceOps,
+  LivePeer,
+  livePeerLeftSchema,
+  livePeerSchema,
+  LivePiece,
+  liveOpsSchema,
+  livePostSchema,
+  liveSnapshotSchema,
+  PieceOp,
+  Presence,
+} from '../lib/collabContract';
+import { jsonInit, request, RoomApiError } from './roomApi';
+
+interface LiveSessionHandlers {
+  // The pieces changed because of a collaborator, or the server resolved a conflict
+  onPieces: (pieces: LivePiece[]) => void;
+  onPeers: (peers: LivePeer[]) => void;
+}
+
+// Cursor updates are sent at most this often
+const PRESENCE_INTERVAL_MS = 50;
+
+const successSchema = z.object({ success: z.literal(true) });
+
+const parseEvent = <T>(schema: z.ZodType<T>, event: Event): T =>
+  schema.parse(JSON.parse((event as MessageEvent<string>).data));
+
+const samePiece = (a: LivePiece, b: LivePiece) =>
+  a.artworkId === b.artworkId && a.url === b.url && a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height &&
+  a.groupName === b.groupName && a.locked === b.locked;
+
+const toLivePiece = ({ id, artworkId, url, x, y, width, height, groupName, locked }: LivePiece): LivePiece =>
+  ({ id, artworkId, url, x, y, width, height, groupName, locked });
+
+/**
+ * The operations that turn one list of pieces into another.
+ */
+export function diffPieces(before: LivePiece[], after: LivePiece[]): PieceOp[] {
+  const remaining = new Map(before.map(piece => [piece.id, piece]));
+  const ops: PieceOp[] = [];
+
+  after.forEach(piece => {
+    const previous = remaining.get(piece.id);
+    if (!previous) {
+      ops.push({ type: 'add', piece: toLivePiece(piece) });
+    } else if (!samePiece(previous, piece)) {
+      ops.push({ type: 'update', piece: toLivePiece(piece) });
+    }
+    remaining.delete(piece.id);
+  });
+  remaining.forEach((_, id) => ops.push({ type: 'remove', id }));
+  return ops;
+}
+
+/**
+ * Live editing connection for one room. Local operations show immediately and
+ * are replayed on top of every change from the server until the server echoes
+ * them back, so the pieces always equal the server's order of events once
+ * everything in flight has arrived.
+ */
+export class LiveSession {
+  private source: EventSource;
+  private clientId: string | null = null;
+  private confirmed: LivePiece[] = [];
+  private pending: { opId: string; ops: PieceOp[] }[] = [];
+  private peers = new Map<string, LivePeer>();
+  private presence: Presence = { cursor: null, activePieceId: null };
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private opCounter = 0;
+
+  constructor(private readonly roomId: number, private readonly handlers: LiveSessionHandlers) {
+    this.source = new EventSource(`/api/room/${roomId}/live`);
+    this.source.addEventListener('snapshot', event => this.handleSnapshot(event));
+    this.source.addEventListener('ops', event => this.handleOps(event));
+    this.source.addEventListener('peer', event => {
+      const peer = parseEvent(livePeerSchema, event);
+      this.peers.set(peer.clientId, peer);
+      this.emitPeers();
+    });
+    this.source.addEventListener('peer-left', event => {
+      this.peers.delete(parseEvent(livePeerLeftSchema, event).clientId);
+      this.emitPeers();
+    });
+  }
+
+  get pieces(): LivePiece[] {
+    return applyPieceOps(this.confirmed, this.pending.flatMap(batch => batch.ops));
+  }
+
+  /**
+   * Sends local edits. Called with the edits already applied on screen.
+   */
+  submit(ops: PieceOp[]) {
+    if (ops.length === 0) return;
+    const batch = { opId: `${Date.now().toString(36)}-${++this.opCounter}`, ops };
+    this.pending.push(batch);
+    this.post(batch);
+  }
+
+  setPresence(presence: Partial<Presence>) {
+    this.presence = { ...this.presence, ...presence };
+    if (this.presenceTimer || !this.clientId) return;
+
+    this.presenceTimer = setTimeout(() => {
+      this.presenceTimer = null;
+      if (!this.clientId) return;
+      const payload = livePostSchema.parse({ clientId: this.clientId, presence: this.presence });
+      request(`/api/room/${this.roomId}/live`, successSchema, jsonInit('POST', payload)).catch(() => undefined);
+    }, PRESENCE_INTERVAL_MS);
+  }
+
+  close() {
+    this.source.close();
+    if (this.presenceTimer) clearTimeout(this.presenceTimer);
+  }
+
+  // Sent on every (re)connect: replaces the pieces and resends whatever the old connection left unconfirmed
+  private handleSnapshot(event: Event) {
+    const snapshot = parseEvent(liveSnapshotSchema, event);
+    this.clientId = snapshot.clientId;
+    this.confirmed = snapshot.pieces;
+    this.peers = new Map(snapshot.peers.map(peer => [peer.clientId, peer]));
+
+    this.pending.forEach(batch => this.post(batch));
+    this.handlers.onPieces(this.pieces);
+    this.emitPeers();
+  }
+
+  private handleOps(event: Event) {
+    const message = parseEvent(liveOpsSchema, event);
+    this.confirmed = applyPieceOps(this.confirmed, message.ops);
+    if (message.clientId === this.clientId) {
+      this.pending = this.pending.filter(batch => batch.opId !== message.opId);
+    }
+    this.handlers.onPieces(this.pieces);
+  }
+
+  // Unconfirmed batches are kept on failure and resent after the next snapshot, unless the server refused them
+  private async post(batch: { opId: string; ops: PieceOp[] }) {
+    if (!this.clientId) return;
+    try {
+      const payload = livePostSchema.parse({ clientId: this.clientId, ...batch });
+      await request(`/api/room/${this.roomId}/live`, successSchema, jsonInit('POST', payload));
+    } catch (err) {
+      if (err instanceof RoomApiError && err.status !== 409) {
+        this.pending = this.pending.filter(b => b !== batch);
+        this.handlers.onPieces(this.pieces);
+      }
+      console.error(err);
+    }
+  }
+
+  private emitPeers() {
+    this.handlers.onPeers([...this.peers.values()].filter(peer => peer.clientId !== this.clientId));
+  }
+}
@@ -1,27 +1,28 @@
 import jsPDF from 'jspdf';
-import { LayoutEngine } from './layoutEngine';
+import type { WallRect } from './wallSpace';
 
 interface HangingMapData {
   roomName: string;
-  items: Array<{
-    id: number;
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  }>;
-  ppi: number;
-  wallHeightPixels: number;
+  // Residual error of the calibration fit, when it had more than one reference
+  calibrationErrorInches?: number | null;
+  // Placements in wall-space inches
+  items: Array<WallRect & { id: number }>;
 }
 
-export const generateHangingGuide = (data: HangingMapData) => {
-  const doc = new jsPDF();
-  const { roomName, items, ppi, wallHeightPixels } = data;
+interface ProjectHangingData {
+  projectName: string;
+  walls: HangingMapData[];
+}
+
+const accentColor = [37, 99, 235]; // #2563eb
+const secondaryColor = [100, 116, 139]; // Slate 500
+const textColor = [30, 41, 59]; // Slate 800
 
-  const accentColor = [37, 99, 235]; // #2563eb
-  const secondaryColor = [100, 116, 139]; // Slate 500
-  const textColor = [30, 41, 59]; // Slate 800
+const accuracyNote = (errorInches: number | null | undefined) =>
+  errorInches == null ? null : `Measurements are accurate to about \u00b1${errorInches.toFixed(2)}" from the calibration.`;
 
+// Page header, title and installation steps. Returns the y position below them.
+const drawHeader = (doc: jsPDF, title: string, note: string | null = null) => {
   // --- Header & Logo ---
   doc.setFont("helvetica", "bold");
   doc.setFontSize(28);
@@ -48,7 +49,7 @@ export const generateHangingGuide = (data: HangingMapData) => {
   doc.setFontSize(18);
   doc.setTextColor(textColor[0], textColor[1], textColor[2]);
   doc.setFont("helvetica", "bold");
-  doc.text(roomName.toUpperCase(), 20, 55);
+  doc.text(title.toUpperCase(), 20, 55);
 
   // --- Instructions ---
   doc.setFillColor(248, 250, 252); // Slate 50
@@ -60,12 +61,21 @@ export const generateHangingGuide = (data: HangingMapData) => {
 
   doc.setTextColor(textColor[0], textColor[1], textColor[2]);
   doc.setFont("helvetica", "normal");
-  doc.text("1. Establish reference point: The bottom-left corner of the wall image.", 25, 82);
+  doc.text("1. Establish reference point: The bottom-left corner of the wall.", 25, 82);
   doc.text("2. Measure horizontal distance (X) from the left edge.", 25, 87);
   doc.text("3. Measure vertical distance (Y) up from the floor level.", 25, 92);
+  if (note) {
+    doc.setTextColor(secondaryColor[0], secondaryColor[1], secondaryColor[2]);
+    doc.text(note, 25, 97);
+  }
 
+  return 115;
+};
+
+// Placement table for one wall, starting at yPos. Returns the y position below it.
+const drawPlacementTable = (doc: jsPDF, items: HangingMapData['items'], startY: number) => {
   // --- Table Header ---
-  let yPos = 115;
+  let yPos = startY;
   doc.setFillColor(30, 41, 59); // Slate 800
   doc.rect(20, yPos - 7, 170, 12, 'F');
 
@@ -81,16 +91,12 @@ export const generateHangingGuide = (data: HangingMapData) => {
 
   // --- Table Rows ---
   items.forEach((item, index) => {
-    // Spatial Calculations
-    const centerXPixels = item.x + (item.width / 2);
-    const centerYPixels = item.y + (item.height / 2);
+    // Spatial Calculations (placements are already in inches)
+    const inchesFromLeft = item.x + (item.width / 2);
+    const inchesFromFloor = item.y + (item.height / 2);
 
-    const inchesFromLeft = LayoutEngine.pixelsToInches(centerXPixels, ppi);
-    const pixelsFromBottom = wallHeightPixels - centerYPixels;
-    const inchesFromFloor = LayoutEngine.pixelsToInches(pixelsFromBottom, ppi);
-
-    const pieceWidth = LayoutEngine.pixelsToInches(item.width, ppi);
-    const pieceHeight = LayoutEngine.pixelsToInches(item.height, ppi);
+    const pieceWidth = item.width;
+    const pieceHeight = item.height;
 
     // Zebra Striping
     if (index % 2 === 0) {
@@ -117,16 +123,69 @@ export const generateHangingGuide = (data: HangingMapData) => {
     }
   });
 
-  // --- Footer ---
-  const footerY = 285;
-  doc.setDrawColor(226, 232, 240);
-  doc.line(20, footerY - 5, 190, footerY - 5);
+  return yPos;
+};
+
+const drawFooters = (doc: jsPDF) => {
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
 
-  doc.setFont("helvetica", "normal");
-  doc.setFontSize(8);
-  doc.setTextColor(secondaryColor[0], secondaryColor[1], secondaryColor[2]);
-  doc.text("VURA \u00a9 2026. PROFESSIONAL GRADE HANGING DATA.", 20, footerY);
-  doc.text("PAGE 1 OF 1", 190, footerY, { align: 'right' });
+    // --- Footer ---
+    const footerY = 285;
+    doc.setDrawColor(226, 232, 240);
+    doc.line(20, footerY - 5, 190, footerY - 5);
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(secondaryColor[0], secondaryColor[1], secondaryColor[2]);
+    doc.text("VURA \u00a9 2026. PROFESSIONAL GRADE HANGING DATA.", 20, footerY);
+    doc.text(`PAGE ${page} OF ${pageCount}`, 190, footerY, { align: 'right' });
+  }
+};
+
+export const generateHangingGuide = (data: HangingMapData) => {
+  const doc = new jsPDF();
+  const { roomName, items, calibrationErrorInches } = data;
+
+  drawPlacementTable(doc, items, drawHeader(doc, roomName, accuracyNote(calibrationErrorInches)));
+  drawFooters(doc);
 
   doc.save(`${roomName.replace(/\s+/g, '_')}_VURA_GUIDE.pdf`);
 };
+
+/**
+ * One guide for every wall of a project, each wall under its own heading.
+ */
+export const generateProjectGuide = (data: ProjectHangingData) => {
+  const doc = new jsPDF();
+  const { projectName, walls } = data;
+
+  let yPos = drawHeader(doc, projectName);
+  walls.forEach((wall, index) => {
+    // Keep a wall heading together with at least a few rows
+    if (index > 0 && yPos > 230) {
+      doc.addPage();
+      yPos = 30;
+    }
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.setTextColor(textColor[0], textColor[1], textColor[2]);
+    doc.text(`WALL ${index + 1}: ${wall.roomName.toUpperCase()}`, 20, yPos);
+
+    const note = accuracyNote(wall.calibrationErrorInches);
+    if (note) {
+      yPos += 6;
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(9);
+      doc.setTextColor(secondaryColor[0], secondaryColor[1], secondaryColor[2]);
+      doc.text(note, 20, yPos);
+    }
+
+    yPos = drawPlacementTable(doc, wall.items, yPos + 12) + 8;
+  });
+  drawFooters(doc);
+
+  doc.save(`${projectName.replace(/\s+/g, '_')}_VURA_GUIDE.pdf`);
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { HomographyError, PerspectiveTransformer, Point, solveHomography } from './perspectiveCorrection';
+
+// A homography with perspective terms, to make point pairs from
+const KNOWN = [1.2, 0.1, 30, -0.05, 0.9, 12, 0.0004, -0.0002, 1];
+
+const project = (p: Point): Point => {
+  const [a, b, c, d, e, f, g, h, i] = KNOWN;
+  const w = g * p.x + h * p.y + i;
+  return { x: (a * p.x + b * p.y + c) / w, y: (d * p.x + e * p.y + f) / w };
+};
+
+const expectClose = (actual: Point, expected: Point, digits = 6) => {
+  expect(actual.x).toBeCloseTo(expected.x, digits);
+  expect(actual.y).toBeCloseTo(expected.y, digits);
+};
+
+describe('solveHomography', () => {
+  const src = [{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 300 }, { x: 0, y: 300 }, { x: 150, y: 120 }, { x: 320, y: 40 }];
+  const dst = src.map(project);
+
+  it('recovers the mapping from four exact pairs', () => {
+    const fit = solveHomography(src.slice(0, 4), dst.slice(0, 4));
+    expect(fit.reprojectionError).toBeLessThan(1e-6);
+    expect(fit.matrix.map(v => v / fit.matrix[8])).toEqual(KNOWN.map(v => expect.closeTo(v, 8)));
+  });
+
+  it('fits more pairs by least squares and maps points in between', () => {
+    const fit = solveHomography(src, dst);
+    expect(fit.inliers).toEqual([0, 1, 2, 3, 4, 5]);
+    const transformer = new PerspectiveTransformer(src, dst);
+    expectClose(transformer.toFlat(200, 150), project({ x: 200, y: 150 }));
+    const mapped = project({ x: 60, y: 250 });
+    expectClose(transformer.toDistorted(mapped.x, mapped.y), { x: 60, y: 250 });
+  });
+
+  it('ignores a misplaced pair with RANSAC', () => {
+    const noisy = dst.map((p, k) => (k === 5 ? { x: p.x + 80, y: p.y - 50 } : p));
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const fit = solveHomography(src, noisy, { ransac: { threshold: 1, random } });
+    expect(fit.inliers).toEqual([0, 1, 2, 3, 4]);
+    expect(fit.errors[5]).toBeGreaterThan(50);
+  });
+
+  it('refuses points that do not pin down a mapping', () => {
+    expect(() => solveHomography(src.slice(0, 3), dst.slice(0, 3))).toThrow(HomographyError);
+    const collinear = [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }];
+    expect(() => solveHomography(collinear, dst.slice(0, 4))).toThrow(HomographyError);
+  });
+});
+
+describe('PerspectiveTransformer.forWall', () => {
+  // A 120" x 96" wall seen by a camera turned 30 degrees, with a 3000px focal length in a 4000 x 3000 photo
+  const photo = { width: 4000, height: 3000 };
+  const onPhoto = (x: number, y: number, yaw = Math.PI / 6, pitch = 0.1): Point => {
+    const z = -x * Math.sin(yaw);
+    const depth = y * Math.sin(pitch) + z * Math.cos(pitch) + 250;
+    const up = y * Math.cos(pitch) - z * Math.sin(pitch);
+    return { x: photo.width / 2 + (3000 * x * Math.cos(yaw)) / depth, y: photo.height / 2 - (3000 * up) / depth };
+  };
+  const corners = { tl: onPhoto(-60, 48), tr: onPhoto(60, 48), br: onPhoto(60, -48), bl: onPhoto(-60, -48) };
+
+  it('keeps an inch the same size across and up the wall', () => {
+    const wall = PerspectiveTransformer.forWall(corners, photo);
+    const origin = wall.toFlat(corners.tl.x, corners.tl.y);
+    const across = (wall.toFlat(corners.tr.x, corners.tr.y).x - origin.x) / 120;
+    const up = (wall.toFlat(corners.bl.x, corners.bl.y).y - origin.y) / 96;
+    expect(up).toBeCloseTo(across, 6);
+  });
+
+  it('uses the measured proportions when it has them', () => {
+    const wall = PerspectiveTransformer.forWall(corners, photo, 2);
+    const origin = wall.toFlat(corners.tl.x, corners.tl.y);
+    const width = wall.toFlat(corners.tr.x, corners.tr.y).x - origin.x;
+    const height = wall.toFlat(corners.bl.x, corners.bl.y).y - origin.y;
+    expect(width / height).toBeCloseTo(2, 6);
+  });
+
+  it('maps a wall photographed head-on onto itself', () => {
+    const square = { tl: { x: 100, y: 50 }, tr: { x: 500, y: 50 }, br: { x: 500, y: 370 }, bl: { x: 100, y: 370 } };
+    const wall = PerspectiveTransformer.forWall(square, { width: 600, height: 420 });
+    expectClose(wall.toFlat(300, 200), { x: 300, y: 200 });
+  });
+});
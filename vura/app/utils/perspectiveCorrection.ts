@@ -1,114 +1,368 @@
-
 /**
  * Math utility for 3D Perspective Correction (Homography).
- * Given 4 source points (corners of a distorted wall in a photo) 
- * and 4 destination points (corners of a flat rectangle),
- * provides functions to map points between the two coordinate systems.
+ * Given point correspondences between a photo (e.g. the corners of a distorted wall)
+ * and a flat plane (e.g. the corners of a rectangle), provides functions to map points
+ * between the two coordinate systems.
  */
 
 export type Point = { x: number; y: number };
 
-export class PerspectiveTransformer {
-  private matrix: number[] = [];
-  private inverseMatrix: number[] = [];
+/** The four wall corners picked during calibration, in intrinsic image pixels. */
+export type WallCorners = { tl: Point; tr: Point; br: Point; bl: Point };
 
-  constructor(src: [Point, Point, Point, Point], dst: [Point, Point, Point, Point]) {
-    this.matrix = this.getHomographyMatrix(src, dst);
-    this.inverseMatrix = this.getHomographyMatrix(dst, src);
-  }
+export type HomographyErrorReason =
+  | 'too-few-points' // Fewer than 4 pairs, or source and destination counts differ
+  | 'collinear' // Three points of a minimal set on one line, or all points on one line
+  | 'degenerate' // The points allow more than one mapping
+  | 'singular' // The fitted mapping collapses the plane
+  | 'no-consensus'; // RANSAC found no mapping that at least 4 pairs agree on
 
-  /**
-   * Maps a point from the Source image (distorted) to the Destination (flat) coordinates.
-   */
-  public toFlat(x: number, y: number): Point {
-    return this.transform(x, y, this.matrix);
+export class HomographyError extends Error {
+  constructor(message: string, readonly reason: HomographyErrorReason) {
+    super(message);
+    this.name = 'HomographyError';
   }
+}
 
+export interface HomographyOptions {
   /**
-   * Maps a point from the Destination (flat) coordinates back to the Source image (distorted).
-   * Used to position "flat-defined" UI elements onto the distorted wall properly.
+   * Fit with RANSAC, ignoring pairs further than `threshold` destination units from where the mapping
+   * puts them. Use when some correspondences may be badly placed.
    */
-  public toDistorted(x: number, y: number): Point {
-    return this.transform(x, y, this.inverseMatrix);
-  }
+  ransac?: {
+    threshold: number;
+    iterations?: number;
+    // Source of randomness for picking samples, Math.random by default
+    random?: () => number;
+  };
+}
 
-  /**
-   * Calculates the Homography Matrix H that maps src points to dst points.
-   * H * [x, y, 1]^T = [w*u, w*v, w]^T
-   * Solves linear system using Gaussian elimination.
-   */
-  private getHomographyMatrix(src: Point[], dst: Point[]): number[] {
-    let A: number[][] = [];
-    let B: number[] = [];
-
-    for (let i = 0; i < 4; i++) {
-        let sx = src[i].x;
-        let sy = src[i].y;
-        let dx = dst[i].x;
-        let dy = dst[i].y;
-
-        A.push([sx, sy, 1, 0, 0, 0, -dx * sx, -dx * sy]);
-        A.push([0, 0, 0, sx, sy, 1, -dy * sx, -dy * sy]);
-        B.push(dx);
-        B.push(dy);
+export interface HomographyFit {
+  /** Row-major 3x3 matrix, scaled so the last entry is 1 where possible. */
+  matrix: number[];
+  /** Indices of the pairs the fit used: all of them, or the RANSAC inliers. */
+  inliers: number[];
+  /** Distance from each mapped source point to its destination, in destination units. */
+  errors: number[];
+  /** Root mean square of the inliers' errors. */
+  reprojectionError: number;
+}
+
+// Relative tolerance below which areas and eigenvalues count as zero
+const EPSILON = 1e-9;
+const DEFAULT_RANSAC_ITERATIONS = 500;
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const cross = (a: Point, b: Point, c: Point) => (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+
+function applyMatrix(matrix: number[], x: number, y: number): Point {
+  const [a, b, c, d, e, f, g, h, i] = matrix;
+  const w = g * x + h * y + i;
+  return { x: (a * x + b * y + c) / w, y: (d * x + e * y + f) / w };
+}
+
+function multiply(m: number[], n: number[]): number[] {
+  const result: number[] = [];
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      result.push(m[row * 3] * n[col] + m[row * 3 + 1] * n[3 + col] + m[row * 3 + 2] * n[6 + col]);
     }
+  }
+  return result;
+}
 
-    const h = this.solveGaussian(A, B);
-    h.push(1); // h33 is always 1
-    return h;
+const determinant = ([a, b, c, d, e, f, g, h, i]: number[]) => a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+
+function invert(matrix: number[]): number[] {
+  const [a, b, c, d, e, f, g, h, i] = matrix;
+  const det = determinant(matrix);
+  const adjugate = [
+    e * i - f * h, c * h - b * i, b * f - c * e,
+    f * g - d * i, a * i - c * g, c * d - a * f,
+    d * h - e * g, b * g - a * h, a * e - b * d,
+  ];
+  return adjugate.map(v => v / det);
+}
+
+// Scales a homography so its last entry is 1, which keeps the numbers readable
+function normalizeScale(matrix: number[]): number[] {
+  const last = matrix[8];
+  if (Math.abs(last) > EPSILON) return matrix.map(v => v / last);
+  const norm = Math.hypot(...matrix);
+  return matrix.map(v => v / norm);
+}
+
+/**
+ * Hartley normalization: moves the points' centroid to the origin and scales them to an average
+ * distance of √2, which keeps the DLT system well conditioned whatever the image size.
+ */
+function normalization(points: Point[]): { matrix: number[]; points: Point[] } {
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const spread = points.reduce((sum, p) => sum + Math.hypot(p.x - cx, p.y - cy), 0) / points.length;
+  if (!(spread > 0)) throw new HomographyError('All points are in the same place.', 'collinear');
+  const s = Math.SQRT2 / spread;
+  return {
+    matrix: [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1],
+    points: points.map(p => ({ x: s * (p.x - cx), y: s * (p.y - cy) })),
+  };
+}
+
+// Normalized points lie around the unit circle, so the areas they span are comparable to 1
+const COLLINEAR_AREA = 1e-6;
+
+function checkCollinear(points: Point[], label: string) {
+  if (points.length === 4) {
+    for (let skip = 0; skip < 4; skip++) {
+      const [a, b, c] = points.filter((_, k) => k !== skip);
+      if (Math.abs(cross(a, b, c)) < COLLINEAR_AREA) {
+        throw new HomographyError(`Three of the ${label} points are on one line.`, 'collinear');
+      }
+    }
+    return;
+  }
+  const far = points.reduce((a, b) => (distance(points[0], b) > distance(points[0], a) ? b : a));
+  if (points.every(c => Math.abs(cross(points[0], far, c)) < COLLINEAR_AREA)) {
+    throw new HomographyError(`All ${label} points are on one line.`, 'collinear');
   }
+}
 
-  /**
-   * Solves Ax = B using Gaussian Elimination
-   */
-  private solveGaussian(A: number[][], B: number[]): number[] {
-    const n = A.length;
-
-    for (let i = 0; i < n; i++) {
-        // Pivot
-        let maxRow = i;
-        for (let j = i + 1; j < n; j++) {
-            if (Math.abs(A[j][i]) > Math.abs(A[maxRow][i])) {
-                maxRow = j;
-            }
+/**
+ * Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations.
+ * @returns Eigenvalues in ascending order, with the matching eigenvectors.
+ */
+function symmetricEigen(input: number[][]): { values: number[]; vectors: number[][] } {
+  const n = input.length;
+  const a = input.map(row => [...row]);
+  const v: number[][] = a.map((_, i) => a.map((__, j) => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    if (offDiagonal < 1e-30) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
         }
-        [A[i], A[maxRow]] = [A[maxRow], A[i]];
-        [B[i], B[maxRow]] = [B[maxRow], B[i]];
-
-        // Eliminate
-        for (let j = i + 1; j < n; j++) {
-            const factor = A[j][i] / A[i][i];
-            B[j] -= factor * B[i];
-            for (let k = i; k < n; k++) {
-                A[j][k] -= factor * A[i][k];
-            }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
         }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
     }
+  }
 
-    // Back substitution
-    const x = new Array(n).fill(0);
-    for (let i = n - 1; i >= 0; i--) {
-        let sum = 0;
-        for (let j = i + 1; j < n; j++) {
-            sum += A[i][j] * x[j];
-        }
-        x[i] = (B[i] - sum) / A[i][i];
+  const order = a.map((_, i) => i).sort((i, j) => a[i][i] - a[j][j]);
+  return {
+    values: order.map(i => a[i][i]),
+    vectors: order.map(i => v.map(row => row[i])),
+  };
+}
+
+/**
+ * Direct linear transform on normalized points: the least-squares homography is the eigenvector
+ * of AᵀA with the smallest eigenvalue, exact for 4 pairs.
+ */
+function fitDlt(src: Point[], dst: Point[]): number[] {
+  const from = normalization(src);
+  const to = normalization(dst);
+  checkCollinear(from.points, 'source');
+  checkCollinear(to.points, 'destination');
+
+  const ata = Array.from({ length: 9 }, () => new Array<number>(9).fill(0));
+  const addRow = (row: number[]) => {
+    for (let i = 0; i < 9; i++) for (let j = 0; j < 9; j++) ata[i][j] += row[i] * row[j];
+  };
+  from.points.forEach(({ x, y }, k) => {
+    const { x: u, y: v } = to.points[k];
+    addRow([x, y, 1, 0, 0, 0, -u * x, -u * y, -u]);
+    addRow([0, 0, 0, x, y, 1, -v * x, -v * y, -v]);
+  });
+
+  const { values, vectors } = symmetricEigen(ata);
+  // A second (near) zero eigenvalue means a whole family of mappings fits equally well
+  if (values[1] <= EPSILON * values[8]) {
+    throw new HomographyError('The points do not pin down a single mapping.', 'degenerate');
+  }
+
+  // Judged in normalized coordinates, where the entries share one scale; in pixels they span orders of magnitude
+  const det = determinant(vectors[0]);
+  if (!Number.isFinite(det) || Math.abs(det) <= EPSILON) {
+    throw new HomographyError('The mapping collapses the plane onto a line.', 'singular');
+  }
+  return normalizeScale(multiply(invert(to.matrix), multiply(vectors[0], from.matrix)));
+}
+
+const reprojectionErrors = (matrix: number[], src: Point[], dst: Point[]) =>
+  src.map((p, k) => distance(applyMatrix(matrix, p.x, p.y), dst[k]));
+
+const rms = (values: number[]) => Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+
+// Picks 4 different indices out of n
+function sampleFour(n: number, random: () => number): number[] {
+  const picked = new Set<number>();
+  while (picked.size < 4) picked.add(Math.floor(random() * n));
+  return [...picked];
+}
+
+function fitRansac(src: Point[], dst: Point[], { threshold, iterations = DEFAULT_RANSAC_ITERATIONS, random = Math.random }: NonNullable<HomographyOptions['ransac']>): number[] {
+  let best: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    const sample = sampleFour(src.length, random);
+    let matrix: number[];
+    try {
+      matrix = fitDlt(sample.map(k => src[k]), sample.map(k => dst[k]));
+    } catch (err) {
+      // Degenerate samples happen, others will do
+      if (err instanceof HomographyError) continue;
+      throw err;
     }
-    return x;
+    const inliers = reprojectionErrors(matrix, src, dst).flatMap((error, k) => (error <= threshold ? [k] : []));
+    if (inliers.length > best.length) best = inliers;
+    if (best.length === src.length) break;
+  }
+  if (best.length < 4) throw new HomographyError('No mapping fits at least 4 of the points.', 'no-consensus');
+  return best;
+}
+
+/**
+ * Fits the homography that maps each source point onto its destination point.
+ * With 4 pairs the fit is exact; with more it is the least-squares compromise, or with RANSAC
+ * the least-squares fit of the largest group of pairs that agree with each other.
+ * @throws HomographyError when the points don't determine a usable mapping.
+ */
+export function solveHomography(src: Point[], dst: Point[], options: HomographyOptions = {}): HomographyFit {
+  if (src.length !== dst.length) {
+    throw new HomographyError(`Got ${src.length} source points for ${dst.length} destination points.`, 'too-few-points');
   }
+  if (src.length < 4) {
+    throw new HomographyError(`A homography needs at least 4 point pairs, got ${src.length}.`, 'too-few-points');
+  }
+
+  const inliers = options.ransac && src.length > 4 ? fitRansac(src, dst, options.ransac) : src.map((_, k) => k);
+  const matrix = fitDlt(inliers.map(k => src[k]), inliers.map(k => dst[k]));
+  const errors = reprojectionErrors(matrix, src, dst);
+  return { matrix, inliers, errors, reprojectionError: rms(inliers.map(k => errors[k])) };
+}
+
+// Focal length of a phone's main camera (26mm full-frame equivalent) as a share of the image diagonal.
+// Assumed when the wall corners can't tell it, because two of the wall's sides are parallel in the photo.
+const TYPICAL_FOCAL_LENGTH = 26 / 43.3;
+// Focal lengths solved from the corners outside these shares of the diagonal come from noise, not the lens
+const FOCAL_LENGTH_RANGE = [0.2, 5];
+
+/**
+ * Real width / height of the rectangle the corners outline, from how perspective foreshortens it.
+ * Solves the camera's focal length from the two vanishing points, taking the principal point to be
+ * the middle of the photo (Zhang & He, "Whiteboard scanning and image enhancement").
+ * Null when the corners don't outline a convex quad.
+ */
+function wallAspect({ tl, tr, br, bl }: WallCorners, image: { width: number; height: number }): number | null {
+  const centered = (p: Point) => [p.x - image.width / 2, p.y - image.height / 2, 1];
+  const vector = (a: number[], b: number[]) => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+  const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+  const [m1, m2, m3, m4] = [tl, tr, bl, br].map(centered);
+  const diagonal = vector(m1, m4);
+  const k2 = dot(diagonal, m3) / dot(vector(m2, m4), m3);
+  const k3 = dot(diagonal, m2) / dot(vector(m3, m4), m2);
+  if (!(k2 > 0 && k3 > 0)) return null;
+  // Directions of the top and left edges in camera space, up to the focal length in their z
+  const across = m2.map((v, i) => k2 * v - m1[i]);
+  const down = m3.map((v, i) => k3 * v - m1[i]);
+
+  const imageDiagonal = Math.hypot(image.width, image.height);
+  const solved = -(across[0] * down[0] + across[1] * down[1]) / (across[2] * down[2]);
+  const [min, max] = FOCAL_LENGTH_RANGE.map(share => (share * imageDiagonal) ** 2);
+  const focal2 = solved >= min && solved <= max ? solved : (TYPICAL_FOCAL_LENGTH * imageDiagonal) ** 2;
+
+  const aspect = Math.sqrt(
+    (across[0] ** 2 + across[1] ** 2 + focal2 * across[2] ** 2) / (down[0] ** 2 + down[1] ** 2 + focal2 * down[2] ** 2)
+  );
+  return Number.isFinite(aspect) && aspect > 0 ? aspect : null;
+}
+
+export class PerspectiveTransformer {
+  private matrix: number[] = [];
+  private inverseMatrix: number[] = [];
+  /** RMS distance between the mapped source points and their destinations, in destination units. */
+  readonly reprojectionError: number;
 
   /**
-   * Applies the transformation matrix to a point.
+   * @param src Points in the source image (distorted), at least 4.
+   * @param dst The matching points in the destination (flat) coordinates.
+   * @throws HomographyError when the points don't determine a usable mapping.
    */
-  private transform(x: number, y: number, matrix: number[]): Point {
-    const a = matrix[0], b = matrix[1], c = matrix[2];
-    const d = matrix[3], e = matrix[4], f = matrix[5];
-    const g = matrix[6], h = matrix[7], i = matrix[8];
+  constructor(src: Point[], dst: Point[], options?: HomographyOptions) {
+    const fit = solveHomography(src, dst, options);
+    this.matrix = fit.matrix;
+    this.inverseMatrix = normalizeScale(invert(fit.matrix));
+    this.reprojectionError = fit.reprojectionError;
+  }
 
-    const w = g * x + h * y + i;
-    const px = (a * x + b * y + c) / w;
-    const py = (d * x + e * y + f) / w;
+  /**
+   * Rectifies a photographed wall: maps its corners onto a frontal rectangle anchored at the top-left corner,
+   * as wide as the top and bottom edges on average and with the wall's real proportions, so an inch is the
+   * same number of flat pixels across and up the wall. A wall photographed head-on maps onto itself.
+   * @param image Size of the photo, which places the camera's axis at its middle. Without it the rectangle is
+   * as tall as the sides on average, which stretches a wall photographed at an angle.
+   * @param measuredAspect Real width / height of the wall, when calibration measured it; wins over the estimate.
+   * @throws HomographyError when the corners don't outline a wall.
+   */
+  static forWall(corners: WallCorners, image?: { width: number; height: number }, measuredAspect?: number | null): PerspectiveTransformer {
+    const { tl, tr, br, bl } = corners;
+    const width = (distance(tl, tr) + distance(bl, br)) / 2;
+    const aspect = measuredAspect && measuredAspect > 0
+      ? measuredAspect
+      : image && image.width > 0 && image.height > 0 ? wallAspect(corners, image) : null;
+    const height = aspect ? width / aspect : (distance(tl, bl) + distance(tr, br)) / 2;
+    return new PerspectiveTransformer(
+      [tl, tr, br, bl],
+      [tl, { x: tl.x + width, y: tl.y }, { x: tl.x + width, y: tl.y + height }, { x: tl.x, y: tl.y + height }]
+    );
+  }
 
-    return { x: px, y: py };
+  /**
+   * CSS matrix3d() that draws flat content where toDistorted puts it, for an element with transform-origin 0 0.
+   * @param scale Rendered size / intrinsic size, when both coordinate systems are drawn at that size.
+   */
+  public toCssMatrix3d(scale = 1): string {
+    const [a, b, c, d, e, f, g, h, i] = this.inverseMatrix;
+    // Column-major 4x4, with z passed through untouched
+    return `matrix3d(${[a, d, 0, g / scale, b, e, 0, h / scale, 0, 0, 1, 0, c * scale, f * scale, 0, i].join(', ')})`;
+  }
+
+  /**
+   * Maps a point from the Source image (distorted) to the Destination (flat) coordinates.
+   */
+  public toFlat(x: number, y: number): Point {
+    return applyMatrix(this.matrix, x, y);
+  }
+
+  /**
+   * Maps a point from the Destination (flat) coordinates back to the Source image (distorted).
+   * Used to position "flat-defined" UI elements onto the distorted wall properly.
+   */
+  public toDistorted(x: number, y: number): Point {
+    return applyMatrix(this.inverseMatrix, x, y);
   }
 }
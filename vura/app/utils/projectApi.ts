@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import {
+  projectCreateSchema,
+  ProjectCreatePayload,
+  projectDocumentSchema,
+  projectPatchSchema,
+  projectSaveResultSchema,
+  projectSummarySchema,
+  wallAddSchema,
+  WallAddPayload,
+} from '../lib/projectContract';
+import { roomSaveResultSchema } from '../lib/roomContract';
+import { jsonInit, request } from './roomApi';
+
+/**
+ * Typed client for /api/projects. Errors surface as RoomApiError.
+ */
+export const ProjectApi = {
+  list: () =>
+    request('/api/projects', z.array(projectSummarySchema)),
+
+  get: (projectId: number) =>
+    request(`/api/projects/${projectId}`, projectDocumentSchema),
+
+  create: (payload: ProjectCreatePayload) =>
+    request('/api/projects', projectSaveResultSchema, jsonInit('POST', projectCreateSchema.parse(payload))),
+
+  rename: (projectId: number, name: string) =>
+    request(`/api/projects/${projectId}`, projectSaveResultSchema, jsonInit('PATCH', projectPatchSchema.parse({ name }))),
+
+  delete: (projectId: number) =>
+    request(`/api/projects/${projectId}`, z.object({ success: z.literal(true) }), { method: 'DELETE' }),
+
+  addWall: (projectId: number, payload: WallAddPayload = {}) =>
+    request(`/api/projects/${projectId}/walls`, roomSaveResultSchema, jsonInit('POST', wallAddSchema.parse(payload))),
+
+  removeWall: (projectId: number, roomId: number) =>
+    request(`/api/projects/${projectId}/walls/${roomId}`, z.object({ success: z.literal(true) }), { method: 'DELETE' }),
+};
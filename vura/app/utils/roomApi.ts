@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import {
+  apiErrorSchema,
+  FieldError,
+  revisionSummarySchema,
+  roomCreateSchema,
+  roomDocumentSchema,
+  roomListSchema,
+  RoomListQuery,
+  RoomCreatePayload,
+  roomPatchSchema,
+  RoomPatchPayload,
+  roomSaveResultSchema,
+  roomUpdateSchema,
+  RoomUpdatePayload,
+  shareCreateSchema,
+  ShareCreatePayload,
+  shareLinkSchema,
+} from '../lib/roomContract';
+import { collaboratorInviteSchema, CollaboratorInvitePayload, collaboratorSchema } from '../lib/authContract';
+
+/**
+ * Thrown for any non-2xx response. Validation failures carry the server's field errors.
+ */
+export class RoomApiError extends Error {
+  constructor(message: string, readonly status: number, readonly fieldErrors: FieldError[] = []) {
+    super(message);
+    this.name = 'RoomApiError';
+  }
+}
+
+export async function request<T>(url: string, schema: z.ZodType<T>, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const parsed = apiErrorSchema.safeParse(body);
+    if (parsed.success) {
+      throw new RoomApiError(parsed.data.error, response.status, parsed.data.fieldErrors);
+    }
+    throw new RoomApiError(`Request failed (${response.status})`, response.status);
+  }
+  return schema.parse(body);
+}
+
+export function jsonInit(method: string, body: unknown): RequestInit {
+  return {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+/**
+ * Typed client for /api/room. Payloads are validated before they leave the
+ * browser, so a bad value fails here with the same field errors the server would return.
+ */
+export const RoomApi = {
+  list: (query: Partial<RoomListQuery> = {}) => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    return request(`/api/room?${params}`, roomListSchema);
+  },
+
+  get: (roomId: number) =>
+    request(`/api/room/${roomId}`, roomDocumentSchema),
+
+  create: (payload: RoomCreatePayload) =>
+    request('/api/room', roomSaveResultSchema, jsonInit('POST', roomCreateSchema.parse(payload))),
+
+  update: (roomId: number, payload: RoomUpdatePayload) =>
+    request(`/api/room/${roomId}`, roomSaveResultSchema, jsonInit('PUT', roomUpdateSchema.parse(payload))),
+
+  patch: (roomId: number, payload: RoomPatchPayload) =>
+    request(`/api/room/${roomId}`, roomSaveResultSchema, jsonInit('PATCH', roomPatchSchema.parse(payload))),
+
+  delete: (roomId: number) =>
+    request(`/api/room/${roomId}`, z.object({ success: z.literal(true) }), { method: 'DELETE' }),
+
+  duplicate: (roomId: number) =>
+    request(`/api/room/${roomId}/duplicate`, roomSaveResultSchema, { method: 'POST' }),
+
+  listRevisions: (roomId: number) =>
+    request(`/api/room/${roomId}/revisions`, z.array(revisionSummarySchema)),
+
+  restoreRevision: (roomId: number, revisionId: number) =>
+    request(`/api/room/${roomId}/revisions/${revisionId}/restore`, roomSaveResultSchema, { method: 'POST' }),
+
+  listShareLinks: (roomId: number) =>
+    request(`/api/room/${roomId}/share`, z.array(shareLinkSchema)),
+
+  createShareLink: (roomId: number, payload: ShareCreatePayload = {}) =>
+    request(`/api/room/${roomId}/share`, shareLinkSchema, jsonInit('POST', shareCreateSchema.parse(payload))),
+
+  revokeShareLink: (roomId: number, token: string) =>
+    request(`/api/room/${roomId}/share/${token}`, z.object({ success: z.literal(true) }), { method: 'DELETE' }),
+
+  listCollaborators: (roomId: number) =>
+    request(`/api/room/${roomId}/collaborators`, z.array(collaboratorSchema)),
+
+  inviteCollaborator: (roomId: number, payload: CollaboratorInvitePayload) =>
+    request(`/api/room/${roomId}/collaborators`, collaboratorSchema, jsonInit('POST', collaboratorInviteSchema.parse(payload))),
+
+  removeCollaborator: (roomId: number, userId: number) =>
+    request(`/api/room/${roomId}/collaborators/${userId}`, z.object({ success: z.literal(true) }), { method: 'DELETE' }),
+};
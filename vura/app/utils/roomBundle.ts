@@ -0,0 +1,293 @@
+import JSZip from 'jszip';
+import { z } from 'zod';
+import { wallCornersSchema } from '../lib/roomContract';
+import { AssetClient } from './assetClient';
+import { RoomApi } from './roomApi';
+
+/**
+ * Portable .vura room bundles: a zip holding manifest.json plus every image the room uses.
+ * Bundles are self-contained, so they can be imported on another machine or database.
+ */
+
+export const BUNDLE_SCHEMA_VERSION = 5;
+export const BUNDLE_EXTENSION = '.vura';
+
+const MANIFEST_FILE = 'manifest.json';
+
+// An image stored inside the bundle
+const bundleAssetSchema = z.object({
+  path: z.string().min(1),
+  contentType: z.string().min(1),
+});
+
+const manifestV1Schema = z.object({
+  format: z.literal('vura-room'),
+  schemaVersion: z.literal(1),
+  exportedAt: z.string(),
+  room: z.object({
+    name: z.string(),
+    wallImage: bundleAssetSchema.nullable(),
+  }),
+  // Exactly as stored on the room: corners in intrinsic pixels of the wall image, the scale and the floor line
+  // in the flat-wall coordinates the corners define
+  calibration: z.object({
+    ppi: z.number().nonnegative().nullable(),
+    floorY: z.number().nonnegative().nullable(),
+    wallCorners: wallCornersSchema.nullable(),
+    wallImageWidth: z.number().int().positive().nullable(),
+    wallImageHeight: z.number().int().positive().nullable(),
+  }),
+  // Wall-space inches, see WallSpace
+  placements: z.array(z.object({
+    image: bundleAssetSchema,
+    x: z.number(),
+    y: z.number(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+  })),
+});
+
+// Version 2 keeps the groups and locks of the placements
+const manifestV2Schema = manifestV1Schema.extend({
+  schemaVersion: z.literal(2),
+  placements: z.array(manifestV1Schema.shape.placements.element.extend({
+    groupName: z.string().min(1).nullable(),
+    locked: z.boolean(),
+  })),
+});
+
+// Version 3 keeps the calibration's error estimate
+const manifestV3Schema = manifestV2Schema.extend({
+  schemaVersion: z.literal(3),
+  calibration: manifestV1Schema.shape.calibration.extend({
+    errorInches: z.number().nonnegative().nullable(),
+  }),
+});
+
+// Version 4 keeps the wall proportions the calibration measured
+const manifestV4Schema = manifestV3Schema.extend({
+  schemaVersion: z.literal(4),
+  calibration: manifestV3Schema.shape.calibration.extend({
+    wallAspect: z.number().positive().nullable(),
+  }),
+});
+
+// Version 5 measures placements from the left wall edge rather than the photo's, when the wall has corners
+const manifestV5Schema = manifestV4Schema.extend({
+  schemaVersion: z.literal(5),
+});
+
+type BundleAsset = z.infer<typeof bundleAssetSchema>;
+export type BundleManifest = z.infer<typeof manifestV5Schema>;
+
+// How far right of the left wall edge the photo's left edge puts a version 4 placement, in inches
+const photoEdgeOffset = (calibration: unknown): number => {
+  const parsed = manifestV4Schema.shape.calibration.safeParse(calibration);
+  if (!parsed.success || !parsed.data.wallCorners) return 0;
+  const { ppi, wallImageHeight, wallCorners } = parsed.data;
+  return wallCorners.tl.x / (ppi || (wallImageHeight ? wallImageHeight / 96 : 10));
+};
+
+/**
+ * Upgrades a manifest from the version in its key to the next one.
+ * When the format changes, bump BUNDLE_SCHEMA_VERSION and add a step here
+ * rather than editing the current schema, so existing files keep loading.
+ */
+const upgraders: Record<number, (manifest: Record<string, unknown>) => Record<string, unknown>> = {
+  1: manifest => ({
+    ...manifest,
+    schemaVersion: 2,
+    placements: Array.isArray(manifest.placements)
+      ? manifest.placements.map(placement => ({ ...placement, groupName: null, locked: false }))
+      : manifest.placements,
+  }),
+  2: manifest => ({
+    ...manifest,
+    schemaVersion: 3,
+    calibration: typeof manifest.calibration === 'object' && manifest.calibration !== null
+      ? { ...manifest.calibration, errorInches: null }
+      : manifest.calibration,
+  }),
+  3: manifest => ({
+    ...manifest,
+    schemaVersion: 4,
+    calibration: typeof manifest.calibration === 'object' && manifest.calibration !== null
+      ? { ...manifest.calibration, wallAspect: null }
+      : manifest.calibration,
+  }),
+  4: manifest => {
+    const offset = photoEdgeOffset(manifest.calibration);
+    return {
+      ...manifest,
+      schemaVersion: 5,
+      placements: Array.isArray(manifest.placements) && offset
+        ? manifest.placements.map(placement => (typeof placement?.x === 'number' ? { ...placement, x: placement.x - offset } : placement))
+        : manifest.placements,
+    };
+  },
+};
+
+export class RoomBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoomBundleError';
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+function readManifest(raw: unknown): BundleManifest {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new RoomBundleError('The bundle manifest is not an object.');
+  }
+
+  let manifest = raw as Record<string, unknown>;
+  let version = manifest.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new RoomBundleError('The bundle manifest has no valid schema version.');
+  }
+  if (version > BUNDLE_SCHEMA_VERSION) {
+    throw new RoomBundleError(`This bundle needs a newer version of Vura (schema ${version}).`);
+  }
+
+  while (version < BUNDLE_SCHEMA_VERSION) {
+    const upgrade = upgraders[version];
+    if (!upgrade) throw new RoomBundleError(`Bundles with schema ${version} are no longer supported.`);
+    manifest = upgrade(manifest);
+    version += 1;
+  }
+
+  const parsed = manifestV5Schema.safeParse(manifest);
+  if (!parsed.success) {
+    throw new RoomBundleError('The bundle manifest is invalid.');
+  }
+  return parsed.data;
+}
+
+export const RoomBundle = {
+  /**
+   * Packages a saved room and all of its images into a .vura file.
+   */
+  export: async (roomId: number): Promise<Blob> => {
+    const room = await RoomApi.get(roomId);
+    const zip = new JSZip();
+
+    // Pieces often share an image, each binary is only stored once
+    const stored = new Map<string, BundleAsset>();
+    const addAsset = async (url: string): Promise<BundleAsset> => {
+      const existing = stored.get(url);
+      if (existing) return existing;
+
+      const response = await fetch(url);
+      if (!response.ok) throw new RoomBundleError(`Could not download ${url} (${response.status}).`);
+      const blob = await response.blob();
+      const contentType = blob.type || 'application/octet-stream';
+
+      const asset = {
+        path: `assets/${stored.size}.${EXTENSIONS[contentType] ?? 'bin'}`,
+        contentType,
+      };
+      zip.file(asset.path, blob);
+      stored.set(url, asset);
+      return asset;
+    };
+
+    const wallImage = room.wallImageUrl ? await addAsset(room.wallImageUrl) : null;
+    const placements = [];
+    for (const piece of room.artPieces) {
+      placements.push({
+        image: await addAsset(piece.imageUrl),
+        x: piece.xInches,
+        y: piece.yInches,
+        width: piece.realWidthInches,
+        height: piece.realHeightInches,
+        groupName: piece.groupName,
+        locked: piece.locked,
+      });
+    }
+
+    const manifest: BundleManifest = {
+      format: 'vura-room',
+      schemaVersion: BUNDLE_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      room: { name: room.name, wallImage },
+      calibration: {
+        ppi: room.referenceRatioPpi,
+        floorY: room.floorY,
+        wallCorners: room.wallCorners,
+        errorInches: room.calibrationErrorInches,
+        wallAspect: room.wallAspect,
+        wallImageWidth: room.wallImageWidth,
+        wallImageHeight: room.wallImageHeight,
+      },
+      placements,
+    };
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+  },
+
+  /**
+   * Recreates a room from a .vura file, uploading its images to asset storage.
+   * @returns The id of the new room.
+   */
+  import: async (file: Blob): Promise<number> => {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(file);
+    } catch {
+      throw new RoomBundleError('This file is not a Vura bundle.');
+    }
+
+    const manifestFile = zip.file(MANIFEST_FILE);
+    if (!manifestFile) throw new RoomBundleError('The bundle has no manifest.');
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await manifestFile.async('string'));
+    } catch {
+      throw new RoomBundleError('The bundle manifest is not valid JSON.');
+    }
+    const manifest = readManifest(raw);
+
+    const uploaded = new Map<string, string>();
+    const uploadAsset = async (asset: BundleAsset): Promise<string> => {
+      const existing = uploaded.get(asset.path);
+      if (existing) return existing;
+
+      const entry = zip.file(asset.path);
+      if (!entry) throw new RoomBundleError(`The bundle is missing ${asset.path}.`);
+      const data = await entry.async('arraybuffer');
+      const url = await AssetClient.upload(new Blob([data], { type: asset.contentType }));
+      uploaded.set(asset.path, url);
+      return url;
+    };
+
+    const wallImageUrl = manifest.room.wallImage ? await uploadAsset(manifest.room.wallImage) : null;
+    const artPieces = [];
+    for (const placement of manifest.placements) {
+      const { image, ...rect } = placement;
+      artPieces.push({ url: await uploadAsset(image), ...rect });
+    }
+
+    const result = await RoomApi.create({
+      name: manifest.room.name,
+      wallImageUrl,
+      ratio: manifest.calibration.ppi,
+      floorY: manifest.calibration.floorY,
+      wallCorners: manifest.calibration.wallCorners,
+      calibrationErrorInches: manifest.calibration.errorInches,
+      wallAspect: manifest.calibration.wallAspect,
+      wallImageWidth: manifest.calibration.wallImageWidth,
+      wallImageHeight: manifest.calibration.wallImageHeight,
+      artPieces,
+    });
+    return result.roomId;
+  },
+};
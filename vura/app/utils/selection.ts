@@ -0,0 +1,88 @@
+import type { WallRect } from './wallSpace';
+
+interface SelectablePiece extends WallRect {
+  id: number;
+  groupName: string | null;
+  locked: boolean;
+}
+
+const intersects = (a: WallRect, b: WallRect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+/**
+ * Selection rules of the editor. Pieces of a group are always selected together,
+ * and locked pieces stay where they are whatever the selection does.
+ */
+export const Selection = {
+  /**
+   * Adds the other members of every group that has a selected piece.
+   */
+  withGroups: <T extends SelectablePiece>(pieces: T[], ids: number[]): number[] => {
+    const groups = new Set(pieces.filter(p => ids.includes(p.id) && p.groupName).map(p => p.groupName));
+    return pieces.filter(p => ids.includes(p.id) || (p.groupName && groups.has(p.groupName))).map(p => p.id);
+  },
+
+  /**
+   * The selection after clicking a piece. Shift-click adds or removes the piece (and its group),
+   * a plain click on a piece outside the selection selects only that piece.
+   */
+  click: <T extends SelectablePiece>(pieces: T[], selected: number[], id: number, additive: boolean): number[] => {
+    const clicked = Selection.withGroups(pieces, [id]);
+    if (!additive) return selected.includes(id) ? selected : clicked;
+    return selected.includes(id)
+      ? selected.filter(s => !clicked.includes(s))
+      : [...new Set([...selected, ...clicked])];
+  },
+
+  /**
+   * Pieces touched by a rubber band drawn in wall space.
+   */
+  inRect: <T extends SelectablePiece>(pieces: T[], rect: WallRect): number[] =>
+    Selection.withGroups(pieces, pieces.filter(p => intersects(p, rect)).map(p => p.id)),
+
+  /**
+   * What a command applies to: the selection, or every piece when nothing is selected.
+   */
+  scope: <T extends SelectablePiece>(pieces: T[], selected: number[]): T[] =>
+    pieces.some(p => selected.includes(p.id)) ? pieces.filter(p => selected.includes(p.id)) : pieces,
+
+  /**
+   * The pieces of the scope a move or a preset may change.
+   */
+  movable: <T extends SelectablePiece>(pieces: T[], selected: number[]): T[] =>
+    Selection.scope(pieces, selected).filter(p => !p.locked),
+
+  /**
+   * Replaces some pieces with updated copies, leaving the order and the other pieces as they are.
+   */
+  merge: <T extends SelectablePiece>(pieces: T[], updated: T[]): T[] => {
+    const byId = new Map(updated.map(p => [p.id, p]));
+    return pieces.map(p => byId.get(p.id) ?? p);
+  },
+
+  /**
+   * Scales pieces along with one of them being resized, so a group keeps its arrangement.
+   * @param from The resized piece before the resize.
+   * @param to The same piece after it.
+   */
+  scaleWith: <T extends SelectablePiece>(pieces: T[], from: WallRect, to: WallRect): T[] => {
+    const scale = to.width / from.width;
+    return pieces.map(p => ({
+      ...p,
+      x: to.x + (p.x - from.x) * scale,
+      y: to.y + (p.y - from.y) * scale,
+      width: p.width * scale,
+      height: p.height * scale,
+    }));
+  },
+
+  /**
+   * A group name not used on the wall yet: "Group 1", "Group 2", ...
+   */
+  nextGroupName: <T extends SelectablePiece>(pieces: T[]): string => {
+    const used = new Set(pieces.map(p => p.groupName));
+    let n = 1;
+    while (used.has(`Group ${n}`)) n++;
+    return `Group ${n}`;
+  },
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { formatInches, SmartGuides } from './smartGuides';
+
+const wall = { width: 120, height: 96, centerLine: 57 };
+
+describe('SmartGuides.snap', () => {
+  it('stays put when nothing is within the tolerance', () => {
+    const result = SmartGuides.snap({ x: 10, y: 10, width: 10, height: 10 }, [{ x: 80, y: 80, width: 5, height: 5 }], wall);
+    expect(result).toEqual({ dx: 0, dy: 0, guides: [] });
+  });
+
+  it('ignores gaps between pieces out of line with it', () => {
+    const others = [{ x: 0, y: 0, width: 10, height: 10 }, { x: 14, y: 0, width: 10, height: 10 }];
+    expect(SmartGuides.snap({ x: 28.5, y: 30, width: 10, height: 10 }, others, wall, 0.75).dx).toBe(0);
+  });
+
+  it('snaps an edge onto the edge of another piece', () => {
+    const result = SmartGuides.snap({ x: 30.6, y: 10, width: 10, height: 10 }, [{ x: 10, y: 12, width: 20, height: 10 }], wall);
+    expect(result.dx).toBeCloseTo(-0.6, 9);
+    expect(result.dy).toBeCloseTo(0, 9);
+    expect(result.guides).toContainEqual({ axis: 'x', position: 30, start: 10, end: 22, label: '30"' });
+  });
+
+  it('snaps to the wall center and the eye-level line', () => {
+    const result = SmartGuides.snap({ x: 54.5, y: 51.8, width: 10, height: 10 }, [], wall);
+    expect(result.dx).toBeCloseTo(0.5, 9);
+    expect(result.dy).toBeCloseTo(0.2, 9);
+    expect(result.guides.map(g => g.label)).toEqual(['Wall center', 'Eye level 57"']);
+  });
+
+  it('repeats the gap between two neighbours in line with the piece', () => {
+    const others = [{ x: 0, y: 0, width: 10, height: 10 }, { x: 14, y: 0, width: 10, height: 10 }];
+    const result = SmartGuides.snap({ x: 28.5, y: 0.3, width: 10, height: 9.4 }, others, wall, 0.75);
+    expect(result.dx).toBeCloseTo(-0.5, 9);
+    expect(result.guides.filter(g => g.axis === 'y' && g.label === '4"')).toHaveLength(2);
+  });
+});
+
+describe('formatInches', () => {
+  it('reads like a tape measure', () => {
+    expect(formatInches(42.5)).toBe('42 1/2"');
+    expect(formatInches(0.375)).toBe('3/8"');
+    expect(formatInches(12)).toBe('12"');
+    expect(formatInches(-1.25)).toBe('-1 1/4"');
+  });
+});
@@ -0,0 +1,165 @@
+import type { WallRect } from './wallSpace';
+
+/**
+ * A guide line in wall-space inches. Axis 'x' is a vertical line at x = position,
+ * axis 'y' a horizontal line at y = position, both running from start to end along the other axis.
+ */
+export interface Guide {
+  axis: 'x' | 'y';
+  position: number;
+  start: number;
+  end: number;
+  label: string;
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: Guide[];
+}
+
+// Lines of the wall itself that pieces snap to
+export interface WallLines {
+  width: number;
+  height: number;
+  // Eye-level line the layouts center on, in inches above the floor
+  centerLine: number;
+}
+
+export const SNAP_TOLERANCE_INCHES = 1;
+
+type Axis = 'x' | 'y';
+
+interface Span {
+  min: number;
+  max: number;
+}
+
+// A rectangle seen along one axis: main is the axis being snapped, cross the other one
+interface Box {
+  main: Span;
+  cross: Span;
+}
+
+// A way to snap along one axis: how far to move, and the guides to show once moved
+interface Candidate {
+  delta: number;
+  guides: (moved: Box) => Guide[];
+}
+
+const crossAxis = (axis: Axis): Axis => (axis === 'x' ? 'y' : 'x');
+
+const toBox = (rect: WallRect, axis: Axis): Box => {
+  const x = { min: rect.x, max: rect.x + rect.width };
+  const y = { min: rect.y, max: rect.y + rect.height };
+  return axis === 'x' ? { main: x, cross: y } : { main: y, cross: x };
+};
+
+const center = (span: Span) => (span.min + span.max) / 2;
+const points = (span: Span) => [span.min, center(span), span.max];
+
+/**
+ * Inches to the nearest eighth, as a tape measure reads: 42 1/2"
+ */
+export function formatInches(inches: number): string {
+  const sign = inches < 0 ? '-' : '';
+  const eighths = Math.round(Math.abs(inches) * 8);
+  const whole = Math.floor(eighths / 8);
+  let numerator = eighths % 8;
+  let denominator = 8;
+  while (numerator > 0 && numerator % 2 === 0) {
+    numerator /= 2;
+    denominator /= 2;
+  }
+  if (numerator === 0) return `${sign}${whole}"`;
+  return whole > 0 ? `${sign}${whole} ${numerator}/${denominator}"` : `${sign}${numerator}/${denominator}"`;
+}
+
+// Edges and centers of the moving box meeting edges and centers of another piece
+function alignments(axis: Axis, moving: Box, others: Box[]): Candidate[] {
+  return others.flatMap(other => points(other.main).flatMap(target => points(moving.main).map(point => ({
+    delta: target - point,
+    guides: (moved: Box): Guide[] => [{
+      axis,
+      position: target,
+      start: Math.min(moved.cross.min, other.cross.min),
+      end: Math.max(moved.cross.max, other.cross.max),
+      label: formatInches(target),
+    }],
+  }))));
+}
+
+// Gaps equal to the gap between two neighbours, on either side of them or centered between them
+function spacings(axis: Axis, moving: Box, others: Box[]): Candidate[] {
+  const inLine = others
+    .filter(other => other.cross.min < moving.cross.max && moving.cross.min < other.cross.max)
+    .sort((a, b) => a.main.min - b.main.min);
+
+  const gapGuides = (moved: Box, segments: [number, number][]): Guide[] =>
+    segments.map(([start, end]) => ({ axis: crossAxis(axis), position: center(moved.cross), start, end, label: formatInches(end - start) }));
+
+  const candidates: Candidate[] = [];
+  for (let i = 0; i + 1 < inLine.length; i++) {
+    const [a, b] = [inLine[i], inLine[i + 1]];
+    const gap = b.main.min - a.main.max;
+    if (gap <= 0) continue;
+
+    candidates.push({
+      delta: b.main.max + gap - moving.main.min,
+      guides: moved => gapGuides(moved, [[a.main.max, b.main.min], [b.main.max, moved.main.min]]),
+    });
+    candidates.push({
+      delta: a.main.min - gap - moving.main.max,
+      guides: moved => gapGuides(moved, [[moved.main.max, a.main.min], [a.main.max, b.main.min]]),
+    });
+
+    const room = gap - (moving.main.max - moving.main.min);
+    if (room > 0) {
+      candidates.push({
+        delta: a.main.max + room / 2 - moving.main.min,
+        guides: moved => gapGuides(moved, [[a.main.max, moved.main.min], [moved.main.max, b.main.min]]),
+      });
+    }
+  }
+  return candidates;
+}
+
+function snapAxis(axis: Axis, moving: Box, others: Box[], wall: WallLines, tolerance: number): Candidate {
+  // The wall center for horizontal moves, the eye-level line for vertical ones
+  const wallLine = axis === 'x'
+    ? { position: wall.width / 2, span: { min: 0, max: wall.height }, label: 'Wall center' }
+    : { position: wall.centerLine, span: { min: 0, max: wall.width }, label: `Eye level ${formatInches(wall.centerLine)}` };
+
+  const candidates: Candidate[] = [
+    {
+      delta: wallLine.position - center(moving.main),
+      guides: () => [{ axis, position: wallLine.position, start: wallLine.span.min, end: wallLine.span.max, label: wallLine.label }],
+    },
+    ...alignments(axis, moving, others),
+    ...spacings(axis, moving, others),
+  ].filter(candidate => Math.abs(candidate.delta) <= tolerance);
+
+  if (candidates.length === 0) return { delta: 0, guides: () => [] };
+
+  const best = candidates.reduce((a, b) => (Math.abs(b.delta) < Math.abs(a.delta) ? b : a));
+  // Everything that lines up at the snapped position gets its guide, not just the winner
+  const matches = candidates.filter(candidate => Math.abs(candidate.delta - best.delta) < 1e-6);
+  return { delta: best.delta, guides: moved => matches.flatMap(candidate => candidate.guides(moved)) };
+}
+
+/**
+ * Figma-style smart guides. Snaps a moving rectangle to the edges and centers of the other pieces,
+ * to the wall center and eye-level line, and to gaps equal to the ones between its neighbours.
+ * Each axis snaps independently, to whichever match is closest within the tolerance.
+ * @param moving Bounds of everything being dragged, at the unsnapped position.
+ * @param tolerance Largest distance a snap may move the pieces, in inches.
+ */
+export const SmartGuides = {
+  snap: (moving: WallRect, others: WallRect[], wall: WallLines, tolerance = SNAP_TOLERANCE_INCHES): SnapResult => {
+    const x = snapAxis('x', toBox(moving, 'x'), others.map(o => toBox(o, 'x')), wall, tolerance);
+    const y = snapAxis('y', toBox(moving, 'y'), others.map(o => toBox(o, 'y')), wall, tolerance);
+    // Guides are drawn against the final position, after both axes snapped
+    const snapped = { ...moving, x: moving.x + x.delta, y: moving.y + y.delta };
+    return { dx: x.delta, dy: y.delta, guides: [...x.guides(toBox(snapped, 'x')), ...y.guides(toBox(snapped, 'y'))] };
+  },
+};
@@ -0,0 +1,271 @@
+import type { Point, WallCorners } from './perspectiveCorrection';
+
+/**
+ * Finds the wall in a photo without any model: edges are extracted with a Sobel filter, straight lines
+ * with a Hough transform, and the lines are grouped by the vanishing point they run towards. The wall's
+ * outline is made of the outermost lines of the vertical and horizontal groups: the corner seams on the
+ * sides, the ceiling line on top and the floor seam at the bottom.
+ */
+
+export interface WallSuggestion {
+  /** The wall quad, in the coordinates of the frame the photo was analyzed for. */
+  corners: WallCorners;
+  /** Y of the floor seam in the middle of the photo, null when no seam was found. */
+  floorY: number | null;
+  /** 0 to 1: how much of the outline was found in the photo rather than guessed. */
+  confidence: number;
+}
+
+/** Pixels the detector reads, in the layout of ImageData. */
+export interface PixelSource {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Photos are analyzed at this longest side, which keeps the Hough transform fast
+const ANALYSIS_SIZE = 400;
+const ANGLE_STEPS = 180;
+// An edge pixel only votes for lines within this many degrees of its gradient
+const VOTE_SPREAD_DEGREES = 8;
+const MAX_LINES = 40;
+// Lines agree with a vanishing point when they point at it within this angle
+const VP_TOLERANCE_DEGREES = 2;
+// Vertical walls edges lean at most this much, receding horizontal ones at most this much
+const VERTICAL_LEAN_DEGREES = 20;
+const HORIZONTAL_LEAN_DEGREES = 40;
+// Where each edge of the wall may be found, as a fraction of the photo
+const SIDE_REGION = 0.4;
+const TOP_REGION = 0.35;
+const BOTTOM_REGION = 0.6;
+// An outer line beats a stronger inner one when it has at least this share of the strongest votes
+const OUTERMOST_SHARE = 0.5;
+
+const DEG = Math.PI / 180;
+
+// A line as x·cos θ + y·sin θ = ρ, with the segment of edge pixels that support it
+interface Line {
+  theta: number;
+  rho: number;
+  votes: number;
+  mid: Point;
+}
+
+// Homogeneous coordinates, so vanishing points at infinity need no special case
+type Vec3 = [number, number, number];
+
+const crossVec = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+const homogeneous = (line: Line): Vec3 => [Math.cos(line.theta), Math.sin(line.theta), -line.rho];
+
+const direction = (line: Line): Point => ({ x: -Math.sin(line.theta), y: Math.cos(line.theta) });
+
+function toGray({ width, height, data }: PixelSource): Float32Array {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+}
+
+// Sobel gradients; returns the strong edge pixels with the angle of their gradient
+function edgePixels(gray: Float32Array, width: number, height: number): { x: number; y: number; angle: number }[] {
+  const magnitude = new Float32Array(width * height);
+  const angle = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => gray[(y + dy) * width + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      magnitude[y * width + x] = Math.hypot(gx, gy);
+      angle[y * width + x] = Math.atan2(gy, gx);
+    }
+  }
+
+  // The strongest tenth of the gradients, and nothing in a flat photo
+  const sorted = Float32Array.from(magnitude).sort();
+  const threshold = Math.max(sorted[Math.floor(sorted.length * 0.9)], 40);
+  const edges: { x: number; y: number; angle: number }[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      if (magnitude[y * width + x] >= threshold) edges.push({ x, y, angle: angle[y * width + x] });
+    }
+  }
+  return edges;
+}
+
+function houghLines(edges: { x: number; y: number; angle: number }[], width: number, height: number): Line[] {
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const rhoSize = diagonal * 2 + 1;
+  const accumulator = new Uint32Array(ANGLE_STEPS * rhoSize);
+  const cos = Array.from({ length: ANGLE_STEPS }, (_, t) => Math.cos(t * DEG));
+  const sin = Array.from({ length: ANGLE_STEPS }, (_, t) => Math.sin(t * DEG));
+
+  for (const edge of edges) {
+    // The gradient is normal to the line, which fixes θ up to the spread
+    const normal = Math.round((((edge.angle / DEG) % 180) + 180) % 180);
+    for (let d = -VOTE_SPREAD_DEGREES; d <= VOTE_SPREAD_DEGREES; d++) {
+      const t = (normal + d + ANGLE_STEPS) % ANGLE_STEPS;
+      const rho = Math.round(edge.x * cos[t] + edge.y * sin[t]);
+      accumulator[t * rhoSize + rho + diagonal]++;
+    }
+  }
+
+  // Peaks, strongest first, skipping near-duplicates of the ones already taken
+  const minVotes = Math.min(width, height) * 0.15;
+  const cells: number[] = [];
+  accumulator.forEach((votes, cell) => { if (votes >= minVotes) cells.push(cell); });
+  cells.sort((a, b) => accumulator[b] - accumulator[a]);
+
+  const peaks: { t: number; rho: number; votes: number }[] = [];
+  for (const cell of cells) {
+    const t = Math.floor(cell / rhoSize);
+    const rho = (cell % rhoSize) - diagonal;
+    const duplicate = peaks.some(peak => {
+      const dt = Math.min(Math.abs(peak.t - t), ANGLE_STEPS - Math.abs(peak.t - t));
+      // Lines at θ and θ + 180° are the same line with ρ negated
+      const sameRho = Math.abs(peak.t - t) <= 90 ? Math.abs(peak.rho - rho) : Math.abs(peak.rho + rho);
+      return dt <= 3 && sameRho <= 8;
+    });
+    if (!duplicate) peaks.push({ t, rho, votes: accumulator[cell] });
+    if (peaks.length === MAX_LINES) break;
+  }
+
+  // Each line's midpoint comes from the edge pixels lying on it
+  return peaks.map(({ t, rho, votes }) => {
+    let sumX = 0;
+    let sumY = 0;
+    let count = 0;
+    for (const edge of edges) {
+      if (Math.abs(edge.x * cos[t] + edge.y * sin[t] - rho) <= 1.5) {
+        sumX += edge.x;
+        sumY += edge.y;
+        count++;
+      }
+    }
+    const mid = count > 0 ? { x: sumX / count, y: sumY / count } : { x: rho * cos[t], y: rho * sin[t] };
+    return { theta: t * DEG, rho, votes, mid };
+  });
+}
+
+// Whether a line runs towards a vanishing point
+function agrees(line: Line, vp: Vec3): boolean {
+  const toVp = { x: vp[0] - line.mid.x * vp[2], y: vp[1] - line.mid.y * vp[2] };
+  const length = Math.hypot(toVp.x, toVp.y);
+  if (length === 0) return true;
+  const dir = direction(line);
+  return Math.abs(dir.x * toVp.x + dir.y * toVp.y) / length >= Math.cos(VP_TOLERANCE_DEGREES * DEG);
+}
+
+/**
+ * The vanishing point most of a family of lines runs towards, by votes. Candidates are the
+ * intersections of every pair of lines, plus the family's direction at infinity.
+ * @returns The point and the share of the family's votes that agree with it.
+ */
+function vanishingPoint(lines: Line[], fallback: Vec3): { vp: Vec3; support: number; lines: Line[] } {
+  const total = lines.reduce((sum, line) => sum + line.votes, 0);
+  const candidates: Vec3[] = [fallback];
+  for (let i = 0; i < lines.length; i++) {
+    for (let j = i + 1; j < lines.length; j++) candidates.push(crossVec(homogeneous(lines[i]), homogeneous(lines[j])));
+  }
+
+  let best = { vp: fallback, support: 0, lines: [] as Line[] };
+  for (const vp of candidates) {
+    const agreeing = lines.filter(line => agrees(line, vp));
+    const votes = agreeing.reduce((sum, line) => sum + line.votes, 0);
+    if (votes > best.support) best = { vp, support: votes, lines: agreeing };
+  }
+  // Two lines always meet somewhere, so it takes a third to trust the point
+  const trusted = best.lines.length >= 3 || (best.lines.length === 2 && best.vp === fallback);
+  return { vp: best.vp, support: total > 0 && trusted ? best.support / total : 0, lines: best.lines };
+}
+
+// Where a line crosses x = const or y = const
+const yAt = (line: Vec3, x: number) => (-line[2] - line[0] * x) / line[1];
+const xAt = (line: Vec3, y: number) => (-line[2] - line[1] * y) / line[0];
+
+const pointOf = (v: Vec3): Point => ({ x: v[0] / v[2], y: v[1] / v[2] });
+
+/**
+ * The outermost strong line on one side of the photo, or a line through the vanishing point
+ * at the given edge point when the photo shows none.
+ * @param position Where a line is along the axis that matters (x for sides, y for top and bottom).
+ * @param outer Whether larger positions are further out.
+ */
+function wallEdge(lines: Line[], vp: Vec3, inRegion: (line: Vec3) => boolean, position: (line: Vec3) => number, outer: 1 | -1, fallbackPoint: Point): { line: Vec3; found: boolean } {
+  const candidates = lines.map(line => ({ line, vec: homogeneous(line) })).filter(({ vec }) => inRegion(vec));
+  if (candidates.length === 0) return { line: crossVec([fallbackPoint.x, fallbackPoint.y, 1], vp), found: false };
+  const strongest = Math.max(...candidates.map(c => c.line.votes));
+  const strong = candidates.filter(c => c.line.votes >= strongest * OUTERMOST_SHARE);
+  const outermost = strong.reduce((a, b) => (outer * position(b.vec) > outer * position(a.vec) ? b : a));
+  return { line: outermost.vec, found: true };
+}
+
+const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+
+const quadArea = (points: Point[]) => Math.abs(points.reduce((sum, p, i) => {
+  const next = points[(i + 1) % points.length];
+  return sum + p.x * next.y - next.x * p.y;
+}, 0)) / 2;
+
+export const WallDetection = {
+  /**
+   * Proposes the wall quad and floor seam of a photo.
+   * @param pixels The photo, best downscaled to a few hundred pixels (see `detect`).
+   * @param frame Size of the frame the result is wanted in, e.g. the rendered photo.
+   */
+  analyze: (pixels: PixelSource, frame: { width: number; height: number }): WallSuggestion => {
+    const { width, height } = pixels;
+    const lines = houghLines(edgePixels(toGray(pixels), width, height), width, height);
+
+    const vertical = lines.filter(line => Math.abs(Math.cos(line.theta)) >= Math.cos(VERTICAL_LEAN_DEGREES * DEG));
+    const horizontal = lines.filter(line => Math.abs(Math.sin(line.theta)) >= Math.cos(HORIZONTAL_LEAN_DEGREES * DEG));
+    const verticalVp = vanishingPoint(vertical, [0, 1, 0]);
+    const horizontalVp = vanishingPoint(horizontal, [1, 0, 0]);
+
+    const middleY = height / 2;
+    const middleX = width / 2;
+    const left = wallEdge(verticalVp.lines, verticalVp.vp, l => xAt(l, middleY) < width * SIDE_REGION, l => xAt(l, middleY), -1, { x: 0, y: middleY });
+    const right = wallEdge(verticalVp.lines, verticalVp.vp, l => xAt(l, middleY) > width * (1 - SIDE_REGION), l => xAt(l, middleY), 1, { x: width, y: middleY });
+    const top = wallEdge(horizontalVp.lines, horizontalVp.vp, l => yAt(l, middleX) < height * TOP_REGION, l => yAt(l, middleX), -1, { x: middleX, y: 0 });
+    const bottom = wallEdge(horizontalVp.lines, horizontalVp.vp, l => yAt(l, middleX) > height * BOTTOM_REGION, l => yAt(l, middleX), 1, { x: middleX, y: height });
+
+    const scaleX = frame.width / width;
+    const scaleY = frame.height / height;
+    const corner = (a: Vec3, b: Vec3): Point => {
+      const p = pointOf(crossVec(a, b));
+      return { x: clamp(p.x * scaleX, frame.width), y: clamp(p.y * scaleY, frame.height) };
+    };
+    const corners: WallCorners = {
+      tl: corner(top.line, left.line),
+      tr: corner(top.line, right.line),
+      br: corner(bottom.line, right.line),
+      bl: corner(bottom.line, left.line),
+    };
+
+    const found = [left, right, top, bottom].filter(edge => edge.found).length / 4;
+    const support = (verticalVp.support + horizontalVp.support) / 2;
+    // A wall is most of the photo; a sliver or a crossed outline is a bad guess
+    const area = quadArea([corners.tl, corners.tr, corners.br, corners.bl]) / (frame.width * frame.height);
+    const plausible = area >= 0.2 && Number.isFinite(area) ? 1 : 0.5;
+    const confidence = Math.min(1, (found * 0.6 + support * 0.4) * plausible);
+
+    const floorY = bottom.found ? clamp(yAt(bottom.line, middleX) * scaleY, frame.height) : null;
+    return { corners, floorY, confidence };
+  },
+
+  /**
+   * Reads a photo element and proposes its wall, in the coordinates of the frame it's shown in.
+   * @throws When the photo can't be read, e.g. when it was served without CORS headers.
+   */
+  detect: (image: HTMLImageElement, frame: { width: number; height: number }): WallSuggestion => {
+    const scale = Math.min(1, ANALYSIS_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D is not available');
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return WallDetection.analyze(context.getImageData(0, 0, canvas.width, canvas.height), frame);
+  },
+};
@@ -0,0 +1,192 @@
+import { LayoutEngine } from './layoutEngine';
+import { HomographyError, PerspectiveTransformer, Point, WallCorners } from './perspectiveCorrection';
+
+/**
+ * A rectangle in wall space, in real-world inches.
+ * x runs from the left wall edge, y from the floor up to the rectangle's bottom edge.
+ * Without wall corners the left edge of the photo stands in for the wall's.
+ */
+export interface WallRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A rectangle in CSS pixels relative to the wall canvas, y growing downwards.
+ */
+export interface ScreenRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface WallCalibration {
+  ppi: number; // Intrinsic image pixels per inch, 0 when not calibrated
+  floorY: number; // Intrinsic Y of the floor line, 0 when not set
+  imageWidth: number;
+  imageHeight: number;
+  // Wall quad in intrinsic pixels; when set, ppi and floorY are measured on the rectified wall
+  wallCorners?: WallCorners | null;
+  // Real width / height of the wall inside the corners, when calibration measured it
+  wallAspect?: number | null;
+}
+
+// Without calibration the photo is assumed to show an 8ft tall wall
+const ASSUMED_WALL_HEIGHT_INCHES = 96;
+// Matches the hanging guide's fallback when there is no wall image at all
+const FALLBACK_PPI = 10;
+
+/**
+ * Converts between wall-space inches and on-screen pixels.
+ * Art placements are stored in inches; this is the only place they meet the current zoom level.
+ *
+ * With a calibrated wall quad there are two kinds of screen coordinates: flat ones, on the rectified
+ * wall, which is where pieces are laid out, and photo ones, where the wall actually is in the picture.
+ * Content laid out in flat coordinates lands on the photo through `layerTransform`, or shows as it is on
+ * the dewarped flat wall, which is drawn in the same flat coordinates.
+ */
+export class WallSpace {
+  /** Intrinsic image pixels per inch, with the 8ft estimate applied when uncalibrated. */
+  readonly ppi: number;
+  /** Intrinsic Y of the floor line, the bottom of the image when not set. */
+  readonly floorY: number;
+  // Intrinsic flat x of the left and right wall edges, the photo's edges without wall corners
+  private readonly wallLeft: number;
+  private readonly wallRight: number;
+  private readonly perspective: PerspectiveTransformer | null;
+
+  /**
+   * @param calibration Calibration of the wall image, in intrinsic pixels.
+   * @param scale Rendered size / intrinsic size of the wall image.
+   * @param onFlatWall True when the layer is drawn over the dewarped flat wall rather than the photo.
+   */
+  constructor(calibration: WallCalibration, readonly scale: number, onFlatWall = false) {
+    if (calibration.ppi > 0) {
+      this.ppi = calibration.ppi;
+    } else if (calibration.imageHeight > 0) {
+      this.ppi = calibration.imageHeight / ASSUMED_WALL_HEIGHT_INCHES;
+    } else {
+      this.ppi = FALLBACK_PPI;
+    }
+    this.floorY = calibration.floorY > 0 ? calibration.floorY : calibration.imageHeight;
+
+    const corners = calibration.wallCorners;
+    const frame = corners ? WallSpace.perspectiveFor(corners, calibration) : null;
+    this.wallLeft = frame && corners ? frame.toFlat(corners.tl.x, corners.tl.y).x : 0;
+    this.wallRight = frame && corners ? frame.toFlat(corners.tr.x, corners.tr.y).x : calibration.imageWidth;
+    this.perspective = onFlatWall ? null : frame;
+  }
+
+  // Corners that don't outline a wall leave the layout flat rather than breaking it
+  private static perspectiveFor(corners: WallCorners, { imageWidth, imageHeight, wallAspect }: WallCalibration): PerspectiveTransformer | null {
+    try {
+      return PerspectiveTransformer.forWall(corners, { width: imageWidth, height: imageHeight }, wallAspect);
+    } catch (err) {
+      if (err instanceof HomographyError) return null;
+      throw err;
+    }
+  }
+
+  /** CSS transform that puts a layer of flat coordinates onto the photo, with transform-origin 0 0. */
+  get layerTransform(): string | undefined {
+    return this.perspective?.toCssMatrix3d(this.scale);
+  }
+
+  /** Screen pixels per inch at the current zoom level. */
+  get screenPpi(): number {
+    return this.ppi * this.scale;
+  }
+
+  /** Width of the photographed wall, between its corners when they are set, in inches. */
+  get widthInches(): number {
+    return LayoutEngine.pixelsToInches(this.wallRight - this.wallLeft, this.ppi);
+  }
+
+  /** Height of the top edge of the photo above the floor, in inches. */
+  get topInches(): number {
+    return LayoutEngine.pixelsToInches(this.floorY, this.ppi);
+  }
+
+  toScreenRect(rect: WallRect): ScreenRect {
+    const screenPpi = this.screenPpi;
+    return {
+      x: this.wallLeft * this.scale + LayoutEngine.inchesToPixels(rect.x, screenPpi),
+      y: this.floorY * this.scale - LayoutEngine.inchesToPixels(rect.y + rect.height, screenPpi),
+      width: LayoutEngine.inchesToPixels(rect.width, screenPpi),
+      height: LayoutEngine.inchesToPixels(rect.height, screenPpi)
+    };
+  }
+
+  fromScreenRect(rect: ScreenRect): WallRect {
+    const screenPpi = this.screenPpi;
+    const width = LayoutEngine.pixelsToInches(rect.width, screenPpi);
+    const height = LayoutEngine.pixelsToInches(rect.height, screenPpi);
+    return {
+      x: LayoutEngine.pixelsToInches(rect.x - this.wallLeft * this.scale, screenPpi),
+      y: LayoutEngine.pixelsToInches(this.floorY * this.scale - rect.y, screenPpi) - height,
+      width,
+      height
+    };
+  }
+
+  /** Maps a point of the photo, in screen pixels, to a point on the wall in inches. */
+  fromPhotoPoint(point: Point): Point {
+    const flat = this.perspective
+      ? this.scalePoint(this.perspective.toFlat(point.x / this.scale, point.y / this.scale), this.scale)
+      : point;
+    const { x, y } = this.fromScreenRect({ ...flat, width: 0, height: 0 });
+    return { x, y };
+  }
+
+  /** Maps a point on the wall in inches to where it shows on the photo, in screen pixels. */
+  toPhotoPoint(point: Point): Point {
+    const { x, y } = this.toScreenRect({ ...point, width: 0, height: 0 });
+    return this.perspective
+      ? this.scalePoint(this.perspective.toDistorted(x / this.scale, y / this.scale), this.scale)
+      : { x, y };
+  }
+
+  /** The wall-space bounds of a rectangle drawn on the photo. */
+  fromPhotoRect(rect: ScreenRect): WallRect {
+    const corners = [
+      { x: rect.x, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y + rect.height },
+      { x: rect.x, y: rect.y + rect.height },
+    ].map(point => this.fromPhotoPoint(point));
+    return LayoutEngine.bounds(corners.map(({ x, y }) => ({ x, y, width: 0, height: 0 })));
+  }
+
+  /**
+   * How much larger a piece shows on the photo than on the flat layer, on average over its area.
+   * 1 without perspective.
+   */
+  photoScaleAt(rect: WallRect): number {
+    if (!this.perspective) return 1;
+    const corners = [
+      { x: rect.x, y: rect.y + rect.height },
+      { x: rect.x + rect.width, y: rect.y + rect.height },
+      { x: rect.x + rect.width, y: rect.y },
+      { x: rect.x, y: rect.y },
+    ].map(point => this.toPhotoPoint(point));
+    // Shoelace formula for the area of the projected quad
+    const area = Math.abs(corners.reduce((sum, p, i) => {
+      const next = corners[(i + 1) % corners.length];
+      return sum + p.x * next.y - next.x * p.y;
+    }, 0)) / 2;
+    const flat = this.toScreenRect(rect);
+    return flat.width > 0 && flat.height > 0 ? Math.sqrt(area / (flat.width * flat.height)) : 1;
+  }
+
+  private scalePoint(point: Point, factor: number): Point {
+    return { x: point.x * factor, y: point.y * factor };
+  }
+
+  /** Converts a length in screen pixels to inches. */
+  toInches(pixels: number): number {
+    return LayoutEngine.pixelsToInches(pixels, this.screenPpi);
+  }
+}
@@ -3,11 +3,24 @@ import { defineConfig } from "drizzle-kit";
 
 config({ path: '.env' });
 
-export default defineConfig({
-  schema: "./app/lib/schema.ts",
-  out: "./migrations",
-  dialect: "postgresql",
-  dbCredentials: {
-    url: process.env.DATABASE_URL!,
-  },
-});
+// Without a DATABASE_URL, point drizzle-kit (studio, push) at the embedded PGlite database
+export default defineConfig(
+  process.env.DATABASE_URL
+    ? {
+        schema: "./app/lib/schema.ts",
+        out: "./migrations",
+        dialect: "postgresql",
+        dbCredentials: {
+          url: process.env.DATABASE_URL,
+        },
+      }
+    : {
+        schema: "./app/lib/schema.ts",
+        out: "./migrations",
+        dialect: "postgresql",
+        driver: "pglite",
+        dbCredentials: {
+          url: process.env.PGLITE_DATA_DIR || "./.data/pglite",
+        },
+      }
+);
@@ -0,0 +1,7 @@
+export async function register() {
+  // Route handlers only run on the Node.js runtime; the edge runtime never touches the database
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { migrateEmbeddedDatabase } = await import('./app/lib/db');
+    await migrateEmbeddedDatabase();
+  }
+}
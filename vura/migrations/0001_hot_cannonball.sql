@@ -0,0 +1,9 @@
+CREATE TABLE "room_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"room_id" integer NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "updated_at" timestamp DEFAULT now();--> statement-breakpoint
+ALTER TABLE "room_revisions" ADD CONSTRAINT "room_revisions_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
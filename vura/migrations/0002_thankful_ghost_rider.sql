@@ -0,0 +1,4 @@
+ALTER TABLE "rooms" ADD COLUMN "floor_y" real;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "wall_corners" jsonb;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "wall_image_width" integer;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "wall_image_height" integer;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE "assets" (
+	"hash" text PRIMARY KEY NOT NULL,
+	"content_type" text NOT NULL,
+	"byte_size" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
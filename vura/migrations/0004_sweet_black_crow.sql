@@ -0,0 +1,23 @@
+ALTER TABLE "art_pieces" ADD COLUMN "x_inches" real;--> statement-breakpoint
+ALTER TABLE "art_pieces" ADD COLUMN "y_inches" real;--> statement-breakpoint
+-- Backfill wall-space placements from the legacy pixel columns. Pixels are read as wall-image pixels;
+-- uncalibrated rooms fall back to an 8ft tall photo, then to the hanging guide defaults (10 px/in, 800px wall).
+UPDATE "art_pieces" AS "a" SET
+	"x_inches" = "a"."x" / "s"."ppi",
+	"y_inches" = ("s"."floor" - "a"."y" - "a"."height") / "s"."ppi",
+	"real_width_inches" = COALESCE("a"."real_width_inches", "a"."width" / "s"."ppi"),
+	"real_height_inches" = COALESCE("a"."real_height_inches", "a"."height" / "s"."ppi")
+FROM (
+	SELECT
+		"id",
+		COALESCE(NULLIF("reference_ratio_ppi", 0), "wall_image_height" / 96.0, 10) AS "ppi",
+		COALESCE(NULLIF("floor_y", 0), "wall_image_height", 800) AS "floor"
+	FROM "rooms"
+) AS "s"
+WHERE "a"."room_id" = "s"."id";--> statement-breakpoint
+UPDATE "art_pieces" SET
+	"x_inches" = "x" / 10,
+	"y_inches" = (800 - "y" - "height") / 10,
+	"real_width_inches" = COALESCE("real_width_inches", "width" / 10),
+	"real_height_inches" = COALESCE("real_height_inches", "height" / 10)
+WHERE "x_inches" IS NULL;
@@ -0,0 +1,8 @@
+ALTER TABLE "art_pieces" ALTER COLUMN "x_inches" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "art_pieces" ALTER COLUMN "y_inches" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "art_pieces" ALTER COLUMN "real_width_inches" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "art_pieces" ALTER COLUMN "real_height_inches" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "art_pieces" DROP COLUMN "x";--> statement-breakpoint
+ALTER TABLE "art_pieces" DROP COLUMN "y";--> statement-breakpoint
+ALTER TABLE "art_pieces" DROP COLUMN "width";--> statement-breakpoint
+ALTER TABLE "art_pieces" DROP COLUMN "height";
\ No newline at end of file
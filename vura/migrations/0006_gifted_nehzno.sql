@@ -0,0 +1,9 @@
+CREATE TABLE "share_tokens" (
+	"token" text PRIMARY KEY NOT NULL,
+	"room_id" integer NOT NULL,
+	"expires_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "share_tokens" ADD CONSTRAINT "share_tokens_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
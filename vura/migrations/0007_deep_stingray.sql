@@ -0,0 +1,14 @@
+CREATE TABLE "artworks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"image_url" text NOT NULL,
+	"title" text NOT NULL,
+	"artist" text,
+	"width_inches" real NOT NULL,
+	"height_inches" real NOT NULL,
+	"frame_depth_inches" real,
+	"hanging_hardware" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "art_pieces" ADD COLUMN "artwork_id" integer;--> statement-breakpoint
+ALTER TABLE "art_pieces" ADD CONSTRAINT "art_pieces_artwork_id_artworks_id_fk" FOREIGN KEY ("artwork_id") REFERENCES "public"."artworks"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "art_pieces" ADD COLUMN "group_name" text;--> statement-breakpoint
+ALTER TABLE "art_pieces" ADD COLUMN "locked" boolean DEFAULT false NOT NULL;
\ No newline at end of file
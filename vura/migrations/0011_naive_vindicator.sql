@@ -0,0 +1,2 @@
+ALTER TABLE "rooms" ADD COLUMN "calibration_error_inches" real;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "wall_aspect" real;
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Only restored revisions from before the inch placements fill this in: 0005 already dropped the pixel columns of
+-- live pieces, whose inches stay the estimate 0004 made from them.
+ALTER TABLE "art_pieces" ADD COLUMN "legacy_rect" jsonb;
\ No newline at end of file
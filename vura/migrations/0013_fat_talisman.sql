@@ -0,0 +1,31 @@
+-- Placements on walls with corners now run from the left wall edge instead of the photo's. The flat frame keeps the
+-- top-left corner where it is on the photo, so the edge is that corner's x, in inches at the room's scale.
+UPDATE "art_pieces" AS "a" SET "x_inches" = "a"."x_inches" - "s"."edge"
+FROM (
+	SELECT "id", ("wall_corners"->'tl'->>'x')::double precision / CASE
+		WHEN "reference_ratio_ppi" > 0 THEN "reference_ratio_ppi"
+		WHEN "wall_image_height" > 0 THEN "wall_image_height" / 96.0
+		ELSE 10
+	END AS "edge"
+	FROM "rooms"
+	WHERE jsonb_typeof("wall_corners") = 'object'
+) AS "s"
+WHERE "a"."room_id" = "s"."id";--> statement-breakpoint
+-- The same for saved revisions. Their pieces from before the inch placements are upgraded when restored.
+UPDATE "room_revisions" AS "r" SET "snapshot" = jsonb_set("r"."snapshot", '{artPieces}', (
+	SELECT COALESCE(jsonb_agg(CASE
+		WHEN "p" ? 'xInches' THEN jsonb_set("p", '{xInches}', to_jsonb(("p"->>'xInches')::double precision - "s"."edge"))
+		ELSE "p"
+	END ORDER BY "n"), '[]'::jsonb)
+	FROM jsonb_array_elements("r"."snapshot"->'artPieces') WITH ORDINALITY AS "e"("p", "n")
+))
+FROM (
+	SELECT "id", ("snapshot"->'wallCorners'->'tl'->>'x')::double precision / CASE
+		WHEN ("snapshot"->>'referenceRatioPpi')::double precision > 0 THEN ("snapshot"->>'referenceRatioPpi')::double precision
+		WHEN ("snapshot"->>'wallImageHeight')::double precision > 0 THEN ("snapshot"->>'wallImageHeight')::double precision / 96
+		ELSE 10
+	END AS "edge"
+	FROM "room_revisions"
+	WHERE jsonb_typeof("snapshot"->'wallCorners') = 'object'
+) AS "s"
+WHERE "r"."id" = "s"."id";
\ No newline at end of file
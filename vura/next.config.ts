@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // PGlite loads its WASM and data files from disk, so it must not be bundled
+  serverExternalPackages: ['@electric-sql/pglite'],
   async headers() {
     return [
       {
@@ -0,0 +1,25 @@
+/**
+ * Gives an account everything saved before accounts existed.
+ * Usage: npm run data:claim -- <email>
+ */
+import { claimLegacyData, findUserByEmail } from '../app/lib/auth';
+import { migrateEmbeddedDatabase } from '../app/lib/db';
+
+async function main() {
+  const email = process.argv[2];
+  if (!email) throw new Error('Usage: npm run data:claim -- <email>');
+
+  await migrateEmbeddedDatabase();
+  const user = await findUserByEmail(email);
+  if (!user) throw new Error(`No account is registered for ${email}`);
+
+  const claimed = await claimLegacyData(user.id);
+  console.log(`${user.email} now owns ${claimed.rooms} rooms, ${claimed.artworks} artworks, ${claimed.projects} projects and ${claimed.assets} assets.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
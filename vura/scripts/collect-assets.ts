@@ -0,0 +1,19 @@
+/**
+ * Deletes stored images that no room, artwork or revision of any account uses anymore.
+ * Usage: npm run assets:gc
+ */
+import { collectGarbage } from '../app/lib/assets';
+import { migrateEmbeddedDatabase } from '../app/lib/db';
+
+async function main() {
+  await migrateEmbeddedDatabase();
+  const removed = await collectGarbage();
+  console.log(`Removed ${removed.length} unused assets.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });